@@ -1,8 +1,29 @@
 
-import React, { useState, useEffect } from 'react';
-import { Language, Article, VocabularyItem, AppState, ApiSettings } from './types';
-import { generateSpeech, analyzeWord, preloadLanguageContent, decodeAudioData, isQuotaError } from './services/aiService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Language, Article, VocabularyItem, AppState, ApiSettings, ReviewGrade, LearnerProfile, KnownWord, WordSource, WordOccurrence, ReadingMode, TranslationTarget, GrammarNote, GrammarPoint, VoicePreference, ShadowingRecording } from './types';
+import { generateSpeech, analyzeWord, preloadLanguageContent, generateReadings, translateSentences, explainGrammar, decodeAudioData, isQuotaError } from './services/aiService';
 import { fetchSupabaseConfig } from './services/supabaseService';
+import { createSchedulingState, ensureSchedulingState, gradeReview } from './services/srsService';
+import { createDefaultApiSettings, normalizeApiSettings } from './services/providerService';
+import { needsEnrichment } from './services/dictionaryImportService';
+import { itemKey, vocabularyKey, filterByLanguage, countDueByLanguage, createKnownWord } from './services/vocabularyService';
+import { createDefaultProfile, isActiveLanguage, levelFor, orderLanguages } from './services/profileService';
+import { estimateDifficulty, knownWordKeys } from './services/difficultyService';
+import { findOccurrences } from './services/occurrenceService';
+import { createFormMatcher, findBySurfaceForm, findSeparateForms, lemmaKey, surfaceForms } from './services/lemmaService';
+import { DEFAULT_READING_MODE, needsReadings } from './services/readingService';
+import { DEFAULT_TRANSLATION_TARGET, cachedTranslation, mergeTranslations } from './services/translationService';
+import { TextSegment } from './services/textService';
+import { createGrammarNote, grammarKey } from './services/grammarService';
+import { NarrationResume, NarrationStream, synthesizeNarration } from './services/narrationService';
+import { voicePreferenceFor } from './services/voiceService';
+import { startSync, subscribeSyncStatus, SyncStatus } from './services/syncService';
+import {
+    loadHistory, loadArticle, saveArticle, loadVocabulary, saveVocabularyItems, mergeVocabularyItems, patchVocabularyItem, loadSetting, saveSetting,
+    contentDayKey, loadDailyContent, saveDailyContent, saveDailyNarration, loadArticleAudio, pruneDailyContent,
+    loadKnownWords, saveKnownWords, deleteKnownWords, loadOccurrences, saveOccurrences,
+    loadGrammarNotes, saveGrammarNotes, deleteGrammarNotes, loadRecordings, saveRecordings, deleteRecordings
+} from './services/storageService';
 import { LanguageSelector } from './components/LanguageSelector';
 import { DailySelection } from './components/DailySelection';
 import { ArticleView } from './components/ArticleView';
@@ -12,15 +33,14 @@ import { WordDetailModal } from './components/WordDetailModal';
 import { FlashcardMode } from './components/FlashcardMode';
 import { Breadcrumbs } from './components/Breadcrumbs';
 import { SettingsModal } from './components/SettingsModal';
-
-// Ebbinghaus intervals (in milliseconds)
-const INTERVALS = [
-    1 * 24 * 60 * 60 * 1000, // 1 day
-    3 * 24 * 60 * 60 * 1000, // 3 days
-    7 * 24 * 60 * 60 * 1000, // 7 days
-    15 * 24 * 60 * 60 * 1000, // 15 days
-    30 * 24 * 60 * 60 * 1000 // 30 days
-];
+import { DictionaryImportModal } from './components/DictionaryImportModal';
+import { ExportDeckModal } from './components/ExportDeckModal';
+import { BackupModal } from './components/BackupModal';
+import { SyncModal } from './components/SyncModal';
+import { ProfileModal } from './components/ProfileModal';
+import { GrammarModal } from './components/GrammarModal';
+import { GrammarNotebook } from './components/GrammarNotebook';
+import { VoiceSettingsModal } from './components/VoiceSettingsModal';
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
@@ -30,11 +50,7 @@ const App: React.FC = () => {
       vocabulary: [],
       isLoading: true, // Start loading while we init settings
       loadingMessage: 'Initializing application...',
-      apiSettings: {
-          primary: 'openai',
-          backup: 'deepseek',
-          keys: {}
-      }
+      apiSettings: createDefaultApiSettings()
   });
 
   // Track loading state for each language
@@ -44,6 +60,9 @@ const App: React.FC = () => {
 
   const [stage, setStage] = useState<'LANG' | 'SELECTION' | 'READ'>('LANG');
   const [selectedWord, setSelectedWord] = useState<VocabularyItem | null>(null);
+  const [wordOccurrences, setWordOccurrences] = useState<WordOccurrence[]>([]);
+  // Sentence to scroll and seek to once the article is shown; the nonce repeats a jump
+  const [seekTarget, setSeekTarget] = useState<{ articleId: string, offset: number, nonce: number } | null>(null);
   
   // Sidebar states
   const [leftSidebarOpen, setLeftSidebarOpen] = useState(false);
@@ -56,30 +75,154 @@ const App: React.FC = () => {
   // Settings Modal
   const [showSettings, setShowSettings] = useState(false);
 
+  // Dictionary Import (file picked, waiting for preview confirmation)
+  const [pendingImport, setPendingImport] = useState<{ fileName: string, text: string } | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+
+  // Cloud Sync
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [showSync, setShowSync] = useState(false);
+
+  // Words marked as known (all languages), plus their keys for quick lookups
+  const [knownWords, setKnownWords] = useState<KnownWord[]>([]);
+  const knownKeys = useMemo(() => new Set(knownWords.map(k => k.key)), [knownWords]);
+
+  // Learner Profile (which languages are preloaded, and at what level)
+  const [learnerProfile, setLearnerProfile] = useState<LearnerProfile>({ studyLanguages: [] });
+  const [showProfile, setShowProfile] = useState(false);
+
+  // Furigana / Jyutping display per language, and generation for the open article
+  const [readingModes, setReadingModes] = useState<Partial<Record<Language, ReadingMode>>>({});
+  const [readingsStatus, setReadingsStatus] = useState<{ articleId: string, failed: boolean } | null>(null);
+
+  // Sentence translations for the open article
+  const [translationTarget, setTranslationTarget] = useState<TranslationTarget>(DEFAULT_TRANSLATION_TARGET);
+  const [translationStatus, setTranslationStatus] = useState<{ articleId: string, pending: number, failed: boolean } | null>(null);
+  const translatingRef = useRef(new Set<string>()); // articleId:target:offset already requested
+
+  // Grammar notebook and the explanation currently shown
+  const [grammarNotes, setGrammarNotes] = useState<GrammarNote[]>([]);
+  const [showGrammarNotebook, setShowGrammarNotebook] = useState(false);
+  const [grammarExplanation, setGrammarExplanation] = useState<{ sentence: string, language: Language, points: GrammarPoint[], source?: WordSource } | null>(null);
+
+  // Narration being generated for articles opened without audio, by article id
+  const [narrations, setNarrations] = useState<Record<string, NarrationStream>>({});
+  // Narration voice and speaking rate per language
+  const [voicePreferences, setVoicePreferences] = useState<Partial<Record<Language, VoicePreference>>>({});
+  const [showVoices, setShowVoices] = useState(false);
+  // Playback speed per language
+  const [playbackRates, setPlaybackRates] = useState<Partial<Record<Language, number>>>({});
+  // Shadowing attempts of the open article
+  const [recordings, setRecordings] = useState<ShadowingRecording[]>([]);
+
+  // Latest values for the background refresh, which outlives any single render
+  const profileRef = useRef(learnerProfile);
+  const settingsRef = useRef(state.apiSettings);
+  const contentDayRef = useRef<string | null>(null);
+  const voicePreferencesRef = useRef(voicePreferences);
+  const narrationsRef = useRef(narrations);
+  // Background narration of cached selections, one article at a time
+  const selectionNarrationRef = useRef<Promise<void>>(Promise.resolve());
+  profileRef.current = learnerProfile;
+  settingsRef.current = state.apiSettings;
+  voicePreferencesRef.current = voicePreferences;
+  narrationsRef.current = narrations;
+
+  // Generated content arrives after awaits; merge it into the article as it is now
+  const currentArticleRef = useRef(state.currentArticle);
+  currentArticleRef.current = state.currentArticle;
+  const latestArticle = (article: Article) =>
+      currentArticleRef.current?.id === article.id ? currentArticleRef.current : article;
+
+  // Today's selection for the chosen language, measured against what the learner knows now
+  const dailyArticles = useMemo(() => {
+    if (!state.selectedLanguage) return [];
+    const known = knownWordKeys(state.vocabulary, knownWords);
+    return (preloadedContent[state.selectedLanguage] || []).map(a => ({ ...a, difficulty: estimateDifficulty(a, known, state.vocabulary) }));
+  }, [preloadedContent, state.selectedLanguage, state.vocabulary, knownWords]);
+
+  // Generate a fresh selection for one language and cache it for the rest of the day
+  const generateLanguageContent = async (lang: Language, settings: ApiSettings, profile: LearnerProfile = profileRef.current) => {
+    const articles = await preloadLanguageContent(lang, settings, levelFor(profile, lang));
+    setPreloadedContent(prev => ({ ...prev, [lang]: articles }));
+    setLangLoadState(prev => ({
+        ...prev,
+        [lang]: { loading: false, ready: articles.length > 0 }
+    }));
+    if (articles.length > 0) {
+        const day = contentDayKey();
+        saveDailyContent(lang, day, articles)
+            .then(() => narrateSelection(lang, day, articles, settings))
+            .catch(e => console.warn(`Failed to cache content for ${lang}`, e));
+    }
+  };
+
+  // Cached selections get their narration in the background so they open with audio. An
+  // article opened meanwhile plays along with the same stream instead of starting another.
+  const narrateSelection = (lang: Language, day: string, articles: Article[], settings: ApiSettings) => {
+    const narrateArticle = async (article: Article) => {
+        if (article.audioUrl || article.narrationVoice || narrationsRef.current[article.id]) return;
+        const { audioBase64, ...patch } = await synthesizeNarration(article.content, lang, settings,
+            voicePreferenceFor(voicePreferencesRef.current, lang),
+            stream => setNarrations(prev => ({ ...prev, [article.id]: stream })));
+        await saveDailyNarration(lang, day, article.id, patch, audioBase64);
+        setPreloadedContent(prev => ({ ...prev, [lang]: prev[lang]?.map(a => a.id === article.id ? { ...a, ...patch } : a) }));
+        if (currentArticleRef.current?.id === article.id) updateArticle(article, patch, { audioBase64 });
+    };
+
+    selectionNarrationRef.current = selectionNarrationRef.current.then(async () => {
+        try {
+            for (const article of articles) await narrateArticle(article);
+        } catch (e) {
+            // Usually quota or provider trouble; the rest are narrated when opened
+            console.warn(`Failed to narrate the ${lang} selection`, e);
+        }
+    });
+  };
+
   // REUSABLE: Refresh content logic with Recovery
-  const refreshContent = async (settings: ApiSettings) => {
-    const languages = Object.values(Language);
-    
-    // 1. Reset loading states
+  const refreshContent = async (settings: ApiSettings, profile: LearnerProfile = profileRef.current) => {
+    const languages = orderLanguages(profile);
+    const day = contentDayKey();
+    contentDayRef.current = day;
+
+    // 1. Serve today's cached selections instantly
+    const cached = await Promise.all(languages.map(lang =>
+        loadDailyContent(lang, day).catch(e => {
+            console.warn(`Failed to read cached content for ${lang}`, e);
+            return null;
+        })
+    ));
+    // A selection written for a different target level is replaced, not served
+    const isCurrent = (lang: Language, articles: Article[] | null) =>
+        !!articles && articles.every(a => !a.level || a.level === levelFor(profile, lang));
+
     const initialStates: any = {};
-    languages.forEach(l => {
-        initialStates[l] = { loading: true, ready: false };
+    const initialContent: any = {};
+    languages.forEach((l, i) => {
+        const articles = isCurrent(l, cached[i]) ? cached[i] : null;
+        // Only study languages are generated up front; the rest wait until they are opened
+        initialStates[l] = articles
+            ? { loading: false, ready: articles.length > 0 }
+            : { loading: isActiveLanguage(profile, l), ready: false };
+        if (articles) {
+            initialContent[l] = articles;
+            narrateSelection(l, day, articles, settings);
+        }
     });
     setLangLoadState(initialStates);
-    
-    // Clear current preloaded content to reflect refresh
-    setPreloadedContent({} as any);
+    setPreloadedContent(initialContent);
 
-    // 2. Process languages sequentially
-    for (const lang of languages) {
+    // Older days are never served again
+    pruneDailyContent(day).catch(e => console.warn("Failed to prune content cache", e));
+
+    // 2. Generate only the missing study languages, sequentially and in profile order
+    const missing = languages.filter((l, i) => !isCurrent(l, cached[i]) && isActiveLanguage(profile, l));
+    for (const lang of missing) {
         try {
             // Pass the settings provided to the function
-            const articles = await preloadLanguageContent(lang, settings);
-            setPreloadedContent(prev => ({ ...prev, [lang]: articles }));
-            setLangLoadState(prev => ({
-                ...prev,
-                [lang]: { loading: false, ready: articles.length > 0 }
-            }));
+            await generateLanguageContent(lang, settings, profile);
         } catch (err: any) {
             if (isQuotaError(err)) {
                 console.warn(`Quota exceeded for ${lang}. Attempting recovery via Supabase...`);
@@ -122,6 +265,19 @@ const App: React.FC = () => {
     }
   };
 
+  // Explicit "regenerate" from the language grid: replaces today's cached selection
+  const handleRegenerateLanguage = async (lang: Language) => {
+    setLangLoadState(prev => ({ ...prev, [lang]: { loading: true, ready: false } }));
+    try {
+        await generateLanguageContent(lang, state.apiSettings);
+    } catch (err) {
+        console.error(`Failed to regenerate ${lang}`, err);
+        // Keep whatever was cached before
+        setLangLoadState(prev => ({ ...prev, [lang]: { loading: false, ready: (preloadedContent[lang] || []).length > 0 } }));
+        alert(`Could not regenerate ${lang} content. Please check your API settings or quota.`);
+    }
+  };
+
   // INITIALIZATION SEQUENCE
   useEffect(() => {
     const initApp = async () => {
@@ -133,26 +289,48 @@ const App: React.FC = () => {
             console.warn("Supabase init failed", e);
         }
 
-        // 2. Load LocalStorage
+        // 2. Load local database (imports the old localStorage keys on first run)
         let savedHistory: Article[] = [];
         let savedVocab: VocabularyItem[] = [];
         let localSettings: ApiSettings | null = null;
+        let savedProfile: LearnerProfile | null = null;
+        let savedKnown: KnownWord[] = [];
+        let savedReadingModes: Partial<Record<Language, ReadingMode>> | null = null;
+        let savedTranslationTarget: TranslationTarget | null = null;
+        let savedGrammar: GrammarNote[] = [];
+        let savedVoices: Partial<Record<Language, VoicePreference>> | null = null;
+        let savedPlaybackRates: Partial<Record<Language, number>> | null = null;
 
         try {
-            const h = localStorage.getItem('linguist_history');
-            if (h) savedHistory = JSON.parse(h);
-            
-            const v = localStorage.getItem('linguist_vocab');
-            if (v) savedVocab = JSON.parse(v);
+            [savedHistory, savedVocab, localSettings, savedProfile, savedKnown, savedReadingModes, savedTranslationTarget, savedGrammar, savedVoices, savedPlaybackRates] = await Promise.all([
+                loadHistory(),
+                loadVocabulary(),
+                loadSetting<ApiSettings>('apiSettings'),
+                loadSetting<LearnerProfile>('learnerProfile'),
+                loadKnownWords(),
+                loadSetting<Partial<Record<Language, ReadingMode>>>('readingModes'),
+                loadSetting<TranslationTarget>('translationTarget'),
+                loadGrammarNotes(),
+                loadSetting<Partial<Record<Language, VoicePreference>>>('voicePreferences'),
+                loadSetting<Partial<Record<Language, number>>>('playbackRates')
+            ]);
+            // Older entries only carry a reviewStage; derive scheduler state from it
+            savedVocab = savedVocab.map(ensureSchedulingState);
 
-            const s = localStorage.getItem('linguist_settings');
-            if (s) localSettings = JSON.parse(s);
+            // Forms of one word saved as separate entries before lookups merged them
+            const merges = findSeparateForms(savedVocab);
+            if (merges.length > 0) {
+                await mergeVocabularyItems(merges);
+                const absorbed = new Set(merges.flatMap(m => m.absorbed.map(item => item.id)));
+                const kept = new Map(merges.map(m => [m.item.id, m.item]));
+                savedVocab = savedVocab.filter(item => !absorbed.has(item.id)).map(item => kept.get(item.id) || item);
+            }
         } catch (e) {
-            console.error("Failed to load local storage", e);
+            console.error("Failed to load local database", e);
         }
 
         // 3. Construct Settings
-        // Priority: Supabase (Remote) > LocalStorage (User Override) > Process.Env (Fallback)
+        // Priority: Supabase (Remote) > Local Database (User Override) > Process.Env (Fallback)
         // Note: We prefer Remote keys for 'gemini' if they exist, assuming it's a managed key.
         
         const envKeys = {
@@ -167,10 +345,15 @@ const App: React.FC = () => {
             deepseek: remoteConfig?.keys?.deepseek || envKeys.deepseek
         };
 
+        // Provider chain and fallback rules are purely local; older saves are migrated here
+        const savedSettings = localSettings ? normalizeApiSettings(localSettings) : createDefaultApiSettings();
+
         const finalSettings: ApiSettings = {
-            primary: localSettings?.primary || 'gemini',
-            backup: localSettings?.backup || remoteConfig?.backup || 'openai',
+            ...savedSettings,
             keys: {
+                // Custom endpoints only ever have local keys
+                ...savedSettings.keys,
+
                 // For Gemini, use Remote key if available (managed), otherwise fallback to local/env
                 gemini: remoteConfig?.keys?.gemini || localSettings?.keys?.gemini || envKeys.gemini,
                 
@@ -180,7 +363,17 @@ const App: React.FC = () => {
             }
         };
 
+        // Existing learners start with the languages they already use
+        const profile = savedProfile || createDefaultProfile(savedHistory, savedVocab);
+
         // 4. Update State
+        setLearnerProfile(profile);
+        setKnownWords(savedKnown);
+        setReadingModes(savedReadingModes || {});
+        setTranslationTarget(savedTranslationTarget || DEFAULT_TRANSLATION_TARGET);
+        setGrammarNotes(savedGrammar);
+        setVoicePreferences(savedVoices || {});
+        setPlaybackRates(savedPlaybackRates || {});
         setState(prev => ({
             ...prev,
             history: savedHistory,
@@ -190,15 +383,190 @@ const App: React.FC = () => {
         }));
 
         // 5. Start Content Load
-        refreshContent(finalSettings);
+        refreshContent(finalSettings, profile);
     };
 
     initApp();
   }, []);
 
+  // Tabs left open overnight pick up the next day's content without a reload
+  useEffect(() => {
+    const checkDay = () => {
+        if (contentDayRef.current && contentDayRef.current !== contentDayKey()) {
+            refreshContent(settingsRef.current, profileRef.current);
+        }
+    };
+    const timer = setInterval(checkDay, 60 * 1000);
+    document.addEventListener('visibilitychange', checkDay);
+    return () => {
+        clearInterval(timer);
+        document.removeEventListener('visibilitychange', checkDay);
+    };
+  }, []);
+
+  // Cloud sync runs alongside the local database and reports remote writes back here
+  useEffect(() => {
+    const stopStatus = subscribeSyncStatus(setSyncStatus);
+    const stopSync = startSync(() => { reloadLearnerData(); });
+    return () => {
+        stopStatus();
+        stopSync();
+    };
+  }, []);
+
+  // Real-world examples for the word being viewed
+  const selectedWordKey = selectedWord ? itemKey(selectedWord) : null;
+  useEffect(() => {
+    setWordOccurrences([]);
+    if (!selectedWordKey) return;
+    let cancelled = false;
+    loadOccurrences(selectedWordKey)
+        .then(occurrences => { if (!cancelled) setWordOccurrences(occurrences); })
+        .catch(e => console.warn("Failed to load word occurrences", e));
+    return () => { cancelled = true; };
+  }, [selectedWordKey]);
+
+  // Shadowing attempts are kept per article, so they load with it
+  const currentArticleId = state.currentArticle?.id;
+  useEffect(() => {
+    setRecordings([]);
+    if (!currentArticleId) return;
+    let cancelled = false;
+    loadRecordings(currentArticleId)
+        .then(saved => { if (!cancelled) setRecordings(saved); })
+        .catch(e => console.warn("Failed to load shadowing recordings", e));
+    return () => { cancelled = true; };
+  }, [currentArticleId]);
+
+  // Reading aids are generated the first time an article is shown with them switched on
+  const readingMode = state.currentArticle ? readingModes[state.currentArticle.language] || DEFAULT_READING_MODE : 'off';
+  useEffect(() => {
+    const article = state.currentArticle;
+    if (!article || article.readings || readingMode === 'off' || !needsReadings(article.content, article.language)) return;
+    // Already running, or failed and waiting for the learner to retry
+    if (readingsStatus?.articleId === article.id) return;
+
+    setReadingsStatus({ articleId: article.id, failed: false });
+    generateReadings(article.content, article.language, state.apiSettings)
+        .then(readings => {
+            updateArticle(article, { readings });
+            setReadingsStatus(prev => (prev?.articleId === article.id ? null : prev));
+        })
+        .catch(e => {
+            console.warn("Failed to generate readings", e);
+            setReadingsStatus(prev => (prev?.articleId === article.id ? { ...prev, failed: true } : prev));
+        });
+  }, [state.currentArticle?.id, readingMode, readingsStatus]);
+
+  const narrate = (article: Article, voice: VoicePreference, resume?: NarrationResume) => {
+    synthesizeNarration(article.content, article.language, state.apiSettings, voice,
+        stream => setNarrations(prev => ({ ...prev, [article.id]: stream })), resume)
+        .then(({ audioBase64, ...patch }) => {
+            // The open view is already playing the stream; the audio itself only needs storing
+            updateArticle(article, patch, { audioBase64 });
+        })
+        .catch(e => console.warn("Failed to narrate article", e));
+  };
+
+  // Articles without audio are narrated sentence by sentence once opened, and can be played
+  // from the first sentence on. Failed narrations wait for a retry.
+  useEffect(() => {
+    const article = state.currentArticle;
+    if (!article || article.audioBase64 || article.audioUrl || narrations[article.id]) return;
+    narrate(article, voicePreferenceFor(voicePreferences, article.language));
+  }, [state.currentArticle?.id, state.currentArticle?.audioBase64, narrations]);
+
+  // Replaces one article's narration, e.g. with a slower or different voice
+  const handleRegenerateNarration = (article: Article, voice: VoicePreference) => {
+      narrate(article, voice);
+      // The view follows the new narration; storage keeps the old one, timings and all, until it is replaced
+      setState(prev => ({
+          ...prev,
+          currentArticle: prev.currentArticle?.id === article.id
+              ? { ...prev.currentArticle, audioBase64: undefined, audioEncoding: undefined, alignment: undefined, narrationVoice: undefined }
+              : prev.currentArticle
+      }));
+  };
+
+  const handleVoicePreferencesSave = (preferences: Partial<Record<Language, VoicePreference>>) => {
+      setVoicePreferences(preferences);
+      saveSetting('voicePreferences', preferences).catch(e => console.error("Failed to save narration voices", e));
+  };
+
+  // Continues from the sentence that failed, in the voice that was asked for
+  const handleRetryNarration = (article: Article) => {
+      const failed = narrations[article.id];
+      narrate(article, failed?.voice || voicePreferenceFor(voicePreferences, article.language), failed?.resume);
+  };
+
+  const handleReadingModeChange = (language: Language, mode: ReadingMode) => {
+      const next = { ...readingModes, [language]: mode };
+      setReadingModes(next);
+      saveSetting('readingModes', next).catch(e => console.error("Failed to save reading display", e));
+  };
+
+  const handlePlaybackRateChange = (language: Language, rate: number) => {
+      const next = { ...playbackRates, [language]: rate };
+      setPlaybackRates(next);
+      saveSetting('playbackRates', next).catch(e => console.error("Failed to save playback speed", e));
+  };
+
+  const handleTranslationTargetChange = (target: TranslationTarget) => {
+      setTranslationTarget(target);
+      saveSetting('translationTarget', target).catch(e => console.error("Failed to save translation language", e));
+  };
+
+  // Translates the given sentences of the open article that are not cached yet
+  const handleTranslate = async (article: Article, sentences: TextSegment[]) => {
+      const target = translationTarget;
+      const requestKey = (s: TextSegment) => `${article.id}:${target}:${s.index}`;
+      const missing = sentences.filter(s =>
+          s.segment.trim() && cachedTranslation(article, target, s.index) === undefined && !translatingRef.current.has(requestKey(s)));
+      if (missing.length === 0) return;
+      missing.forEach(s => translatingRef.current.add(requestKey(s)));
+
+      setTranslationStatus(prev => ({
+          articleId: article.id,
+          pending: (prev?.articleId === article.id ? prev.pending : 0) + 1,
+          failed: false
+      }));
+      let failed = false;
+      try {
+          const translated = await translateSentences(missing.map(s => s.segment.trim()), article.language, target, state.apiSettings);
+          const entries: Record<number, string> = {};
+          missing.forEach((s, i) => {
+              if (translated[i]) entries[s.index] = translated[i]!;
+          });
+          failed = Object.keys(entries).length === 0;
+          if (!failed) updateArticle(article, { translations: mergeTranslations(latestArticle(article), target, entries) });
+      } catch (e) {
+          console.warn("Failed to translate sentences", e);
+          failed = true;
+      }
+      missing.forEach(s => translatingRef.current.delete(requestKey(s)));
+      setTranslationStatus(prev => prev?.articleId === article.id
+          ? { articleId: article.id, pending: prev.pending - 1, failed: prev.failed || failed }
+          : prev);
+  };
+
+  // Stores something generated for an article (readings, translations...) with it.
+  // `storedOnly` is saved without being put into state, e.g. audio that is already playing.
+  const updateArticle = (article: Article, patch: Partial<Article>, storedOnly: Partial<Article> = {}) => {
+      setState(prev => ({
+          ...prev,
+          currentArticle: prev.currentArticle?.id === article.id ? { ...prev.currentArticle, ...patch } : prev.currentArticle,
+          history: prev.history.map(a => a.id === article.id ? { ...a, ...patch } : a)
+      }));
+      saveArticle({ ...latestArticle(article), ...patch, ...storedOnly }).catch(e => console.warn("Failed to save article", e));
+  };
+
+  const recordOccurrences = (article: Article, items: VocabularyItem[]) => {
+    saveOccurrences(findOccurrences(article, items)).catch(e => console.warn("Failed to record word occurrences", e));
+  };
+
   const handleSettingsSave = (newSettings: ApiSettings) => {
       setState(prev => ({ ...prev, apiSettings: newSettings }));
-      localStorage.setItem('linguist_settings', JSON.stringify(newSettings));
+      saveSetting('apiSettings', newSettings).catch(e => console.error("Failed to save settings", e));
       
       // Refresh data with new settings
       refreshContent(newSettings);
@@ -210,13 +578,64 @@ const App: React.FC = () => {
       }
   };
 
+  const handleProfileSave = (profile: LearnerProfile) => {
+      setLearnerProfile(profile);
+      saveSetting('learnerProfile', profile).catch(e => console.error("Failed to save learner profile", e));
+
+      // Newly added languages start preloading; cached ones are served as before
+      refreshContent(state.apiSettings, profile);
+  };
+
+  // Languages outside the study profile are generated when first opened
+  const loadLanguageOnDemand = async (lang: Language) => {
+    setLangLoadState(prev => ({ ...prev, [lang]: { loading: true, ready: false } }));
+    try {
+        await generateLanguageContent(lang, state.apiSettings);
+    } catch (err) {
+        console.error(`Failed to load ${lang}`, err);
+        setLangLoadState(prev => ({ ...prev, [lang]: { loading: false, ready: false } }));
+    }
+  };
+
   const handleLanguageSelect = (lang: Language) => {
     setState(prev => ({ ...prev, selectedLanguage: lang }));
     setStage('SELECTION');
+
+    const status = langLoadState[lang];
+    if (!status?.ready && !status?.loading) {
+        loadLanguageOnDemand(lang);
+    }
   };
 
-  const handleArticleSelect = async (article: Article) => {
-      const updatedHistory = [article, ...state.history];
+  const handleArticleSelect = async (selected: Article) => {
+      // Keep what earlier reads generated for it; cached selections do not have it
+      const stored = state.history.find(a => a.id === selected.id);
+      let article = stored ? { ...selected, ...stored } : selected;
+      // Cached selections are kept without audio; fetch the narration now
+      try {
+          article = await loadArticleAudio(article);
+      } catch (e) {
+          console.warn("Failed to load cached narration", e);
+      }
+
+      // Finished narrations are stored with their articles by now; running ones keep going
+      setNarrations(prev => {
+          const running: Record<string, NarrationStream> = {};
+          Object.keys(prev).forEach(id => {
+              if (!prev[id].done && !prev[id].failed) running[id] = prev[id];
+          });
+          return running;
+      });
+
+      // First read: link every saved word that appears in it back to this article
+      if (!state.history.some(a => a.id === article.id)) {
+          recordOccurrences(article, state.vocabulary);
+      }
+
+      // History keeps metadata only; audio is stored separately and loaded on demand
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { audioBase64, ...historyEntry } = article;
+      const updatedHistory = [historyEntry, ...state.history.filter(a => a.id !== article.id)];
       
       setState(prev => ({
           ...prev,
@@ -224,14 +643,8 @@ const App: React.FC = () => {
           history: updatedHistory
       }));
 
-      // Save to LocalStorage (EXCLUDES audio)
       try {
-        const historyForStorage = updatedHistory.map(a => {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const { audioBase64, ...rest } = a;
-          return rest;
-        });
-        localStorage.setItem('linguist_history', JSON.stringify(historyForStorage));
+        await saveArticle(article);
       } catch (e) {
         console.warn("Failed to save history", e);
       }
@@ -239,43 +652,70 @@ const App: React.FC = () => {
       setStage('READ');
   };
 
-  const handleWordSelect = async (word: string, context: string) => {
-    // Check if already exists
-    const existing = state.vocabulary.find(v => v.word.toLowerCase() === word.toLowerCase());
+  // Another form of a word already saved (mangé → manger): keep one entry, remember this spelling
+  const addVariant = (item: VocabularyItem, word: string, lemma?: string) => {
+    const merged: VocabularyItem = {
+        ...item,
+        lemma: item.lemma || lemma,
+        variants: surfaceForms({ word: item.word, variants: [...(item.variants || []), word] })
+            .filter(form => form !== item.word)
+    };
+    saveVocabularyItems([merged]).catch(e => console.error("Failed to save vocabulary", e));
+    if (state.currentArticle) recordOccurrences(state.currentArticle, [merged]);
+    setState(prev => ({ ...prev, vocabulary: prev.vocabulary.map(v => v.id === merged.id ? merged : v) }));
+    setSelectedWord(merged);
+  };
+
+  const handleWordSelect = async (word: string, context: string, source?: WordSource) => {
+    const language = state.currentArticle?.language || state.selectedLanguage!;
+
+    // Check if already exists in this language's deck, under any spelling looked up before
+    const existing = findBySurfaceForm(state.vocabulary, word, language);
     if (existing) {
         setSelectedWord(existing);
         return;
     }
 
+    // An inflection of a saved verb needs no lookup at all
+    const inflected = createFormMatcher(state.vocabulary, language)(word);
+    if (inflected) {
+        addVariant(inflected, word);
+        return;
+    }
+
     setState(prev => ({ ...prev, isLoading: true, loadingMessage: `Analyzing "${word}"...` }));
     try {
-        // Generate analysis and pronunciation audio in parallel
-        const [details, audioResult] = await Promise.all([
-            analyzeWord(word, state.selectedLanguage!, context, state.apiSettings),
-            generateSpeech(word, state.selectedLanguage!, state.apiSettings).catch(e => {
-                console.warn("Failed to generate pronunciation audio", e);
-                return undefined;
-            })
-        ]);
+        const details = await analyzeWord(word, language, context, state.apiSettings);
+
+        const lemmaMatch = state.vocabulary.find(v => v.language === language && lemmaKey(v) === lemmaKey({ ...details, language }));
+        if (lemmaMatch) {
+            addVariant(lemmaMatch, details.word, details.lemma);
+            return;
+        }
+
+        // Same voice as the narration, but single words are always spoken at normal speed
+        const audioResult = await generateSpeech(word, language, state.apiSettings, { ...voicePreferenceFor(voicePreferences, language), rate: 1 }).catch(e => {
+            console.warn("Failed to generate pronunciation audio", e);
+            return undefined;
+        });
 
         const newItem: VocabularyItem = {
             ...details,
+            ...createSchedulingState(),
             id: crypto.randomUUID(),
+            language,
             addedAt: Date.now(),
-            nextReviewAt: Date.now() + INTERVALS[0],
-            reviewStage: 0,
             contextSentence: context,
+            sourceArticleId: source?.articleId,
+            sourceOffset: source?.offset,
             audioBase64: audioResult?.audioData,
             audioEncoding: audioResult?.encoding
         };
 
         const updatedVocab = [newItem, ...state.vocabulary];
         
-        try {
-          localStorage.setItem('linguist_vocab', JSON.stringify(updatedVocab));
-        } catch (e) {
-          console.error("Failed to save vocabulary", e);
-        }
+        saveVocabularyItems([newItem]).catch(e => console.error("Failed to save vocabulary", e));
+        if (state.currentArticle) recordOccurrences(state.currentArticle, [newItem]);
         
         setState(prev => ({ ...prev, vocabulary: updatedVocab }));
         setSelectedWord(newItem);
@@ -287,39 +727,75 @@ const App: React.FC = () => {
     }
   };
 
+  const handleExplainGrammar = async (sentence: TextSegment, context: string) => {
+    const article = state.currentArticle;
+    if (!article) return;
+    const text = sentence.segment.trim();
+
+    setState(prev => ({ ...prev, isLoading: true, loadingMessage: 'Explaining grammar...' }));
+    try {
+        const points = await explainGrammar(text, article.language, context, state.apiSettings);
+        setGrammarExplanation({ sentence: text, language: article.language, points, source: { articleId: article.id, offset: sentence.index } });
+    } catch (error) {
+        console.error(error);
+        alert("Failed to explain grammar. Please check your API settings or quota.");
+    } finally {
+        setState(prev => ({ ...prev, isLoading: false }));
+    }
+  };
+
+  const handleSaveGrammar = (point: GrammarPoint) => {
+    if (!grammarExplanation) return;
+    const note = createGrammarNote(point, grammarExplanation.language, grammarExplanation.sentence, grammarExplanation.source);
+    setGrammarNotes(prev => [note, ...prev]);
+    saveGrammarNotes([note]).catch(e => console.error("Failed to save grammar note", e));
+  };
+
+  const handleGrammarReview = (id: string, grade: ReviewGrade) => {
+    const note = grammarNotes.find(n => n.id === id);
+    if (!note) return;
+    const updated = gradeReview(note, grade);
+    setGrammarNotes(prev => prev.map(n => n.id === id ? updated : n));
+    saveGrammarNotes([updated]).catch(e => console.error("Failed to save grammar review", e));
+  };
+
+  const handleDeleteGrammar = (id: string) => {
+    setGrammarNotes(prev => prev.filter(n => n.id !== id));
+    deleteGrammarNotes([id]).catch(e => console.error("Failed to delete grammar note", e));
+  };
+
+  const handleSaveRecording = (articleId: string, attempt: Pick<ShadowingRecording, 'offset' | 'sentence' | 'audio' | 'duration' | 'score'>) => {
+    const recording: ShadowingRecording = { ...attempt, id: crypto.randomUUID(), articleId, recordedAt: Date.now() };
+    setRecordings(prev => [...prev, recording]);
+    saveRecordings([recording]).catch(e => console.error("Failed to save recording", e));
+  };
+
+  const handleDeleteRecording = (id: string) => {
+    setRecordings(prev => prev.filter(r => r.id !== id));
+    deleteRecordings([id]).catch(e => console.error("Failed to delete recording", e));
+  };
+
   // General update function for vocabulary item status
   const updateVocabularyItem = (id: string, updater: (item: VocabularyItem) => VocabularyItem) => {
+    const changed: VocabularyItem[] = [];
     const updatedVocab = state.vocabulary.map(item => {
         if (item.id === id) {
-            return updater(item);
+            const updated = updater(item);
+            changed.push(updated);
+            return updated;
         }
         return item;
     });
 
-    try {
-      localStorage.setItem('linguist_vocab', JSON.stringify(updatedVocab));
-    } catch (e) {
-      console.error("Failed to update vocabulary in storage", e);
-    }
+    saveVocabularyItems(changed).catch(e => console.error("Failed to update vocabulary in storage", e));
     
     setState(prev => ({ ...prev, vocabulary: updatedVocab }));
     return updatedVocab;
   };
 
-  // Handle manual "Mark as Reviewed" from Modal
+  // Handle manual "Mark as Reviewed" from Modal (counts as a 'good' recall)
   const handleReviewWord = (id: string) => {
-      const updatedVocab = updateVocabularyItem(id, (item) => {
-          const now = Date.now();
-          const nextStage = item.reviewStage + 1;
-          const intervalIndex = Math.min(nextStage, INTERVALS.length - 1);
-          const nextInterval = INTERVALS[intervalIndex];
-          return {
-              ...item,
-              reviewStage: nextStage,
-              lastReviewedAt: now,
-              nextReviewAt: now + nextInterval
-          };
-      });
+      const updatedVocab = updateVocabularyItem(id, (item) => gradeReview(item, 'good'));
 
       // Update modal if currently open
       const updatedWord = updatedVocab.find(v => v.id === id) || null;
@@ -328,40 +804,37 @@ const App: React.FC = () => {
       }
   };
 
-  // Handle Flashcard Result (Success vs Failure)
-  const handleFlashcardResult = (id: string, success: boolean) => {
-      updateVocabularyItem(id, (item) => {
-          const now = Date.now();
-          if (success) {
-               // Advance stage
-               const nextStage = item.reviewStage + 1;
-               const intervalIndex = Math.min(nextStage, INTERVALS.length - 1);
-               return {
-                   ...item,
-                   reviewStage: nextStage,
-                   lastReviewedAt: now,
-                   nextReviewAt: now + INTERVALS[intervalIndex]
-               };
-          } else {
-               // Reset stage on failure (Ebbinghaus reset)
-               return {
-                   ...item,
-                   reviewStage: 0,
-                   lastReviewedAt: now,
-                   nextReviewAt: now + INTERVALS[0] // Reset to 1 day
-               };
-          }
-      });
+  // Known words are skipped by highlighting and count towards difficulty coverage
+  const handleMarkKnown = (words: string[], language: Language) => {
+      const added = words
+          .map(word => createKnownWord(word, language))
+          .filter(k => !knownKeys.has(k.key));
+      if (added.length === 0) return;
+      setKnownWords(prev => [...prev, ...added]);
+      saveKnownWords(added).catch(e => console.error("Failed to save known words", e));
+  };
+
+  const handleUnmarkKnown = (word: string, language: Language) => {
+      const key = vocabularyKey(word, language);
+      setKnownWords(prev => prev.filter(k => k.key !== key));
+      deleteKnownWords([key]).catch(e => console.error("Failed to remove known word", e));
+  };
+
+  // Handle Flashcard Result (graded recall: Again / Hard / Good / Easy)
+  const handleFlashcardResult = (id: string, grade: ReviewGrade) => {
+      updateVocabularyItem(id, (item) => gradeReview(item, grade));
   };
 
   const startFlashcardSession = () => {
       const now = Date.now();
+      // Only review the deck of the language being studied
+      const deck = filterByLanguage(state.vocabulary, state.selectedLanguage);
       // Prefer due items, if none, take all sorted by review date
-      let itemsToReview = state.vocabulary.filter(v => v.nextReviewAt <= now);
+      let itemsToReview = deck.filter(v => v.nextReviewAt <= now);
       
       if (itemsToReview.length === 0) {
           // If nothing due, just practice everything, oldest review first
-          itemsToReview = [...state.vocabulary].sort((a, b) => a.nextReviewAt - b.nextReviewAt);
+          itemsToReview = [...deck].sort((a, b) => a.nextReviewAt - b.nextReviewAt);
       }
 
       if (itemsToReview.length > 0) {
@@ -388,27 +861,132 @@ const App: React.FC = () => {
      }
   };
 
-  const handleHistorySelect = (article: Article) => {
-      setState(prev => ({ ...prev, currentArticle: article }));
+  const handleHistorySelect = async (article: Article) => {
+      // Restore the saved narration; fall back to the metadata we already have
+      let fullArticle = article;
+      try {
+          fullArticle = (await loadArticle(article.id)) || article;
+      } catch (e) {
+          console.warn("Failed to load article audio", e);
+      }
+      // Switch to the article's language so the vocabulary deck matches what is being read
+      setState(prev => ({ ...prev, currentArticle: fullArticle, selectedLanguage: fullArticle.language }));
       setStage('READ');
       // For mobile, close sidebar
       setLeftSidebarOpen(false);
   };
   
+  // Open the article an example sentence came from and seek to that sentence
+  const handleJumpToOccurrence = async (occurrence: WordOccurrence) => {
+      const known = state.currentArticle?.id === occurrence.articleId
+          ? state.currentArticle
+          : state.history.find(a => a.id === occurrence.articleId);
+      let article: Article | null = known || null;
+      if (article?.id !== state.currentArticle?.id) {
+          try {
+              article = (await loadArticle(occurrence.articleId)) || article;
+          } catch (e) {
+              console.warn("Failed to load article", e);
+          }
+      }
+      if (!article) {
+          alert("That article is no longer in your history.");
+          return;
+      }
+
+      setSelectedWord(null);
+      setSeekTarget({ articleId: article.id, offset: occurrence.offset, nonce: Date.now() });
+      setState(prev => ({ ...prev, currentArticle: article, selectedLanguage: article!.language }));
+      setStage('READ');
+  };
+
   const handleDictionaryUpload = () => {
       const input = document.createElement('input');
       input.type = 'file';
-      input.accept = '.txt,.json,.csv';
-      input.onchange = (e: any) => {
-          const file = e.target.files[0];
-          if(file) {
-             // Mock implementation
-             alert(`Uploaded ${file.name}. Dictionary integrated into context analysis.`);
+      input.accept = '.txt,.json,.csv,.tsv';
+      input.onchange = async (e: any) => {
+          const file: File | undefined = e.target.files[0];
+          if (!file) return;
+          try {
+              const text = await file.text();
+              setPendingImport({ fileName: file.name, text });
+          } catch (err) {
+              console.error("Failed to read dictionary file", err);
+              alert(`Could not read ${file.name}.`);
           }
       };
       input.click();
   };
 
+  // Fill in definitions for imported words one at a time so we stay within rate limits
+  const enrichImportedWords = async (items: VocabularyItem[]) => {
+      for (const item of items) {
+          try {
+              const details = await analyzeWord(item.word, item.language, item.contextSentence || '', state.apiSettings);
+              const patch = { ...details, word: item.word };
+              setState(prev => ({
+                  ...prev,
+                  vocabulary: prev.vocabulary.map(v => v.id === item.id ? { ...v, ...patch } : v)
+              }));
+              patchVocabularyItem(item.id, patch).catch(e => console.error("Failed to save enriched vocabulary", e));
+          } catch (err) {
+              console.warn(`Failed to enrich "${item.word}"`, err);
+              // Out of quota: stop here, remaining words keep their imported fields
+              if (isQuotaError(err)) return;
+          }
+          await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+  };
+
+  const handleImportConfirm = (items: VocabularyItem[], enrich: boolean) => {
+      const updatedVocab = [...items, ...state.vocabulary];
+
+      saveVocabularyItems(items).catch(e => console.error("Failed to save imported vocabulary", e));
+      setState(prev => ({ ...prev, vocabulary: updatedVocab }));
+
+      if (enrich) {
+          enrichImportedWords(items.filter(needsEnrichment));
+      }
+  };
+
+  // Reload everything from storage after a backup restore or a cloud sync pull
+  // Also runs from the sync callback, which keeps the first render's copy; read the article through the ref
+  const reloadLearnerData = async () => {
+      const articleId = currentArticleRef.current?.id;
+      try {
+          const [history, vocabulary, savedSettings, known, grammar, profile, modes, target, voices, rates, articleRecordings] = await Promise.all([
+              loadHistory(),
+              loadVocabulary(),
+              loadSetting<ApiSettings>('apiSettings'),
+              loadKnownWords(),
+              loadGrammarNotes(),
+              loadSetting<LearnerProfile>('learnerProfile'),
+              loadSetting<Partial<Record<Language, ReadingMode>>>('readingModes'),
+              loadSetting<TranslationTarget>('translationTarget'),
+              loadSetting<Partial<Record<Language, VoicePreference>>>('voicePreferences'),
+              loadSetting<Partial<Record<Language, number>>>('playbackRates'),
+              articleId ? loadRecordings(articleId) : Promise.resolve([])
+          ]);
+          setKnownWords(known);
+          if (currentArticleRef.current?.id === articleId) setRecordings(articleRecordings);
+          setGrammarNotes(grammar);
+          // Preferences the backup carried; ones it did not are still as they were
+          if (profile) setLearnerProfile(profile);
+          if (modes) setReadingModes(modes);
+          if (target) setTranslationTarget(target);
+          if (voices) setVoicePreferences(voices);
+          if (rates) setPlaybackRates(rates);
+          setState(prev => ({
+              ...prev,
+              history,
+              vocabulary: vocabulary.map(ensureSchedulingState),
+              apiSettings: savedSettings ? normalizeApiSettings(savedSettings) : prev.apiSettings
+          }));
+      } catch (e) {
+          console.error("Failed to reload restored data", e);
+      }
+  };
+
   const handleNavigation = (dest: 'LANG' | 'SELECTION') => {
       setStage(dest);
       if (dest === 'LANG') {
@@ -474,6 +1052,35 @@ const App: React.FC = () => {
             </span>
 
             <div className="flex items-center gap-2">
+                 {syncStatus && syncStatus.phase !== 'unavailable' && (
+                    <button
+                        onClick={() => setShowSync(true)}
+                        className="relative p-2 text-slate-400 hover:text-indigo-600 transition-colors rounded-lg hover:bg-slate-50"
+                        title="Cloud Sync"
+                    >
+                        <svg className={`w-6 h-6 ${syncStatus.phase === 'syncing' ? 'animate-pulse text-indigo-500' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 15a4 4 0 004 4h9a5 5 0 10-.1-9.999 5.002 5.002 0 10-9.78 2.096A4.001 4.001 0 003 15z" /></svg>
+                        {(syncStatus.phase === 'error' || syncStatus.phase === 'offline') && (
+                            <span className={`absolute top-1.5 right-1.5 w-2 h-2 rounded-full ${syncStatus.phase === 'error' ? 'bg-rose-500' : 'bg-amber-400'}`}></span>
+                        )}
+                    </button>
+                 )}
+
+                 <button
+                    onClick={() => setShowVoices(true)}
+                    className="p-2 text-slate-400 hover:text-indigo-600 transition-colors rounded-lg hover:bg-slate-50"
+                    title="Narration Voices"
+                 >
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+                 </button>
+
+                 <button
+                    onClick={() => setShowBackup(true)}
+                    className="p-2 text-slate-400 hover:text-indigo-600 transition-colors rounded-lg hover:bg-slate-50"
+                    title="Backup & Restore"
+                 >
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" /></svg>
+                 </button>
+
                  <button
                     onClick={() => setShowSettings(true)}
                     className="p-2 text-slate-400 hover:text-indigo-600 transition-colors rounded-lg hover:bg-slate-50"
@@ -505,19 +1112,50 @@ const App: React.FC = () => {
                 <LanguageSelector 
                     onSelect={handleLanguageSelect} 
                     loadingStates={langLoadState}
+                    dueCounts={countDueByLanguage(state.vocabulary)}
+                    onRegenerate={handleRegenerateLanguage}
+                    profile={learnerProfile}
+                    onEditProfile={() => setShowProfile(true)}
                 />
             )}
             {stage === 'SELECTION' && state.selectedLanguage && (
                 <DailySelection 
-                    articles={preloadedContent[state.selectedLanguage] || []}
+                    articles={dailyArticles}
                     onSelect={handleArticleSelect}
                     language={state.selectedLanguage}
+                    isLoading={langLoadState[state.selectedLanguage]?.loading}
+                    onRetry={() => loadLanguageOnDemand(state.selectedLanguage!)}
                 />
             )}
             {stage === 'READ' && state.currentArticle && (
                 <ArticleView 
                     article={state.currentArticle} 
                     onWordSelect={handleWordSelect} 
+                    vocabulary={filterByLanguage(state.vocabulary, state.currentArticle.language)}
+                    knownWords={knownKeys}
+                    onMarkKnown={(words) => handleMarkKnown(words, state.currentArticle!.language)}
+                    seekTo={seekTarget?.articleId === state.currentArticle.id ? seekTarget : null}
+                    readingMode={readingMode}
+                    onReadingModeChange={(mode) => handleReadingModeChange(state.currentArticle!.language, mode)}
+                    readingsStatus={readingsStatus?.articleId === state.currentArticle.id ? (readingsStatus.failed ? 'failed' : 'loading') : undefined}
+                    onRetryReadings={() => setReadingsStatus(null)}
+                    translationTarget={translationTarget}
+                    onTranslationTargetChange={handleTranslationTargetChange}
+                    onTranslate={(sentences) => handleTranslate(state.currentArticle!, sentences)}
+                    onExplainGrammar={handleExplainGrammar}
+                    onAlignmentComputed={(alignment) => updateArticle(state.currentArticle!, { alignment })}
+                    narration={narrations[state.currentArticle.id]}
+                    onRetryNarration={() => handleRetryNarration(state.currentArticle!)}
+                    voicePreference={voicePreferenceFor(voicePreferences, state.currentArticle.language)}
+                    onRegenerateNarration={(voice) => handleRegenerateNarration(state.currentArticle!, voice)}
+                    playbackRate={playbackRates[state.currentArticle.language] || 1}
+                    onPlaybackRateChange={(rate) => handlePlaybackRateChange(state.currentArticle!.language, rate)}
+                    recordings={recordings}
+                    onSaveRecording={(attempt) => handleSaveRecording(state.currentArticle!.id, attempt)}
+                    onDeleteRecording={handleDeleteRecording}
+                    translationStatus={translationStatus?.articleId === state.currentArticle.id
+                        ? (translationStatus.pending > 0 ? 'loading' : translationStatus.failed ? 'failed' : undefined)
+                        : undefined}
                 />
             )}
         </div>
@@ -532,10 +1170,13 @@ const App: React.FC = () => {
                 ${rightSidebarOpen ? 'translate-x-0 shadow-2xl' : 'translate-x-full'}
             `}>
                 <SidebarRight 
-                    vocabulary={state.vocabulary} 
+                    vocabulary={filterByLanguage(state.vocabulary, state.selectedLanguage)} 
                     onUploadDictionary={handleDictionaryUpload}
+                    onExport={() => setShowExport(true)}
                     onViewWord={setSelectedWord}
                     onStartReview={startFlashcardSession}
+                    grammarNotes={state.selectedLanguage ? grammarNotes.filter(n => n.language === state.selectedLanguage) : grammarNotes}
+                    onOpenGrammar={() => setShowGrammarNotebook(true)}
                 />
                 {/* Close button for mobile */}
                 <button 
@@ -562,6 +1203,34 @@ const App: React.FC = () => {
             item={selectedWord} 
             onClose={() => setSelectedWord(null)} 
             onReview={handleReviewWord}
+            isKnown={knownKeys.has(itemKey(selectedWord))}
+            occurrences={wordOccurrences}
+            articleTitles={Object.fromEntries(state.history.map(a => [a.id, a.title]))}
+            onJumpToOccurrence={handleJumpToOccurrence}
+            onToggleKnown={(item) => knownKeys.has(itemKey(item))
+                ? handleUnmarkKnown(item.word, item.language)
+                : handleMarkKnown([item.word], item.language)}
+          />
+      )}
+
+      {grammarExplanation && (
+          <GrammarModal 
+            sentence={grammarExplanation.sentence}
+            language={grammarExplanation.language}
+            points={grammarExplanation.points}
+            savedKeys={new Set(grammarNotes.map(n => grammarKey(n.pattern, n.language)))}
+            onSave={handleSaveGrammar}
+            onClose={() => setGrammarExplanation(null)}
+          />
+      )}
+
+      {showGrammarNotebook && (
+          <GrammarNotebook 
+            notes={state.selectedLanguage ? grammarNotes.filter(n => n.language === state.selectedLanguage) : grammarNotes}
+            language={state.selectedLanguage}
+            onReview={handleGrammarReview}
+            onDelete={handleDeleteGrammar}
+            onClose={() => setShowGrammarNotebook(false)}
           />
       )}
 
@@ -574,6 +1243,58 @@ const App: React.FC = () => {
           />
       )}
 
+      {pendingImport && (
+          <DictionaryImportModal 
+            fileName={pendingImport.fileName}
+            fileText={pendingImport.text}
+            vocabulary={state.vocabulary}
+            defaultLanguage={state.selectedLanguage}
+            onImport={handleImportConfirm}
+            onClose={() => setPendingImport(null)}
+          />
+      )}
+
+      {showExport && (
+          <ExportDeckModal 
+            vocabulary={filterByLanguage(state.vocabulary, state.selectedLanguage)}
+            language={state.selectedLanguage}
+            onClose={() => setShowExport(false)}
+          />
+      )}
+
+      {showBackup && (
+          <BackupModal 
+            vocabulary={state.vocabulary}
+            settings={state.apiSettings}
+            onRestored={reloadLearnerData}
+            onClose={() => setShowBackup(false)}
+          />
+      )}
+
+      {showSync && syncStatus && (
+          <SyncModal 
+            status={syncStatus}
+            onClose={() => setShowSync(false)}
+          />
+      )}
+
+      {showProfile && (
+          <ProfileModal 
+            profile={learnerProfile}
+            onSave={handleProfileSave}
+            onClose={() => setShowProfile(false)}
+          />
+      )}
+
+      {showVoices && (
+          <VoiceSettingsModal
+            preferences={voicePreferences}
+            profile={learnerProfile}
+            onSave={handleVoicePreferencesSave}
+            onClose={() => setShowVoices(false)}
+          />
+      )}
+
       {showSettings && (
           <SettingsModal 
             settings={state.apiSettings}
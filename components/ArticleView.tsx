@@ -1,13 +1,74 @@
 
 import React, { useEffect, useState, useRef, useMemo, useCallback } from 'react';
-import { Article, Language } from '../types';
+import { Article, ArticleAlignment, ReadingAnnotation, ReadingMode, ShadowingRecording, TranslationTarget, VocabularyItem, VoicePreference, WordSource } from '../types';
 import { decodeAudioData } from '../services/aiService';
+import { segmentSentences, segmentWords, tokenizeText, TextSegment, TextToken } from '../services/textService';
+import { vocabularyKey } from '../services/vocabularyService';
+import { createFormMatcher } from '../services/lemmaService';
+import { READING_MODES, readingPieces, readingSystem } from '../services/readingService';
+import { TRANSLATION_TARGETS, cachedTranslation } from '../services/translationService';
+import { alignAudioBuffer, matchesAudio, timingAt } from '../services/alignmentService';
+import { NarrationStream } from '../services/narrationService';
+import { describeVoice } from '../services/voiceService';
+import { createTimeStretcher, timeStretch, TimeStretcher } from '../services/timeStretchService';
+import { sliceSpeech, SpeechSamples } from '../services/shadowingService';
+import { VoicePicker } from './VoicePicker';
+import { ShadowingPanel } from './ShadowingPanel';
 
 interface Props {
   article: Article;
-  onWordSelect: (word: string, context: string) => void;
+  onWordSelect: (word: string, context: string, source: WordSource) => void;
+  vocabulary: VocabularyItem[]; // The article language's deck
+  knownWords: Set<string>; // vocabularyKey of every word marked as known
+  onMarkKnown: (words: string[]) => void;
+  seekTo?: { offset: number, nonce: number } | null; // Sentence to scroll and seek to (character offset)
+  readingMode: ReadingMode; // Furigana / Jyutping display for this language
+  onReadingModeChange: (mode: ReadingMode) => void;
+  readingsStatus?: 'loading' | 'failed';
+  onRetryReadings: () => void;
+  translationTarget: TranslationTarget;
+  onTranslationTargetChange: (target: TranslationTarget) => void;
+  onTranslate: (sentences: TextSegment[]) => void; // Only sentences not cached on the article are sent
+  translationStatus?: 'loading' | 'failed';
+  onExplainGrammar: (sentence: TextSegment, context: string) => void;
+  onAlignmentComputed: (alignment: ArticleAlignment) => void; // Measured on audio the article had no timings for
+  narration?: NarrationStream; // Being generated for an article opened without audio
+  onRetryNarration: () => void;
+  voicePreference: VoicePreference; // The language's default narration voice
+  onRegenerateNarration: (voice: VoicePreference) => void;
+  playbackRate: number; // Remembered per language
+  onPlaybackRateChange: (rate: number) => void;
+  recordings: ShadowingRecording[]; // The article's shadowing attempts, oldest first
+  onSaveRecording: (recording: Pick<ShadowingRecording, 'offset' | 'sentence' | 'audio' | 'duration' | 'score'>) => void;
+  onDeleteRecording: (id: string) => void;
 }
 
+type WordStatus = 'new' | 'learning' | 'known';
+
+// Word tokens being dragged over, by character offsets in the article
+interface DragSelection {
+  anchor: TextToken;
+  focus: TextToken;
+}
+
+// Longer drags are almost certainly accidental, not a phrase
+const MAX_PHRASE_LENGTH = 100;
+
+// External audio larger than this is played but not downloaded for alignment or shadowing
+const MAX_ALIGN_BYTES = 40 * 1024 * 1024;
+
+// The samples of external audio, which the HTML5 engine never exposes
+const downloadAudio = (url: string, sampleRate: number) =>
+  fetch(url)
+    .then(res => {
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      if (Number(res.headers.get('content-length')) > MAX_ALIGN_BYTES) throw new Error("Audio is too large to download");
+      return res.arrayBuffer();
+    })
+    .then(data => new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(data));
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5];
+
 interface SentenceData {
   text: string;
   startChar: number;
@@ -18,21 +79,6 @@ interface SentenceData {
   isWhitespace: boolean;
 }
 
-// Map full language names to ISO codes for Intl.Segmenter
-const getIsoCode = (lang: Language | string): string => {
-  switch(lang) {
-      case 'Japanese': return 'ja';
-      case 'Korean': return 'ko';
-      case 'French': return 'fr';
-      case 'Italian': return 'it';
-      case 'Dutch': return 'nl';
-      case 'English': return 'en';
-      case 'Cantonese': return 'zh-HK';
-      case 'Spanish': return 'es';
-      default: return 'en';
-  }
-};
-
 const formatTime = (seconds: number) => {
   if (!isFinite(seconds) || isNaN(seconds)) return "0:00";
   const m = Math.floor(seconds / 60);
@@ -40,7 +86,19 @@ const formatTime = (seconds: number) => {
   return `${m}:${s.toString().padStart(2, '0')}`;
 };
 
-export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
+const isNumeric = (word: string) => /^[\p{N}.,]+$/u.test(word);
+
+// Learning words fade as they move through the review stages
+const learningClass = (stage: number) =>
+  stage <= 0 ? 'bg-amber-200' : stage <= 2 ? 'bg-amber-100' : 'bg-amber-50';
+
+export const ArticleView: React.FC<Props> = ({
+  article, onWordSelect, vocabulary, knownWords, onMarkKnown, seekTo,
+  readingMode, onReadingModeChange, readingsStatus, onRetryReadings,
+  translationTarget, onTranslationTargetChange, onTranslate, translationStatus, onExplainGrammar,
+  onAlignmentComputed, narration, onRetryNarration, voicePreference, onRegenerateNarration,
+  playbackRate, onPlaybackRateChange, recordings, onSaveRecording, onDeleteRecording
+}) => {
   // Audio State
   const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
@@ -56,10 +114,23 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
   const [loopRange, setLoopRange] = useState<{start: number, end: number} | null>(null);
   const [volume, setVolume] = useState(1);
 
+  // Narration streamed in while the article is open comes with exact timings for its narrated part
+  const isStreamed = !!narration && !article.audioBase64 && !article.audioUrl;
+  const measured = isStreamed ? narration.alignment : article.alignment;
+
+  // Sentence and word timings measured on this audio, if any
+  const alignment = matchesAudio(measured, duration) ? measured : null;
+  const isAligned = !!alignment;
+  // Playback that caught up with a streamed narration carries on from here once more arrives
+  const [resumeAt, setResumeAt] = useState<number | null>(null);
+  const isStreamingRef = useRef(false);
+  isStreamingRef.current = isStreamed && !narration.failed;
+
   // Refs for Web Audio control
   const sourceRef = useRef<AudioBufferSourceNode | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
   const startTimeRef = useRef<number>(0); // When playback started (AudioContext time)
+  const rateRef = useRef<number>(1); // Speed the playing source was started at
   const pausedAtRef = useRef<number>(0); // Offset within the file
   const rafRef = useRef<number | null>(null);
   
@@ -84,6 +155,14 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
     pausedAtRef.current = 0;
     setLoopRange(null);
     setLoopingSentenceId(null);
+    setResumeAt(null);
+    let cancelled = false;
+
+    // Timings stored with the article are reused as long as they were measured on this audio
+    const alignIfNeeded = (buffer: AudioBuffer) => {
+      if (cancelled || matchesAudio(article.alignment, buffer.duration)) return;
+      onAlignmentComputed(alignAudioBuffer(buffer, article.content, article.language));
+    };
 
     const initAudio = async () => {
       // Case A: External URL (Official Media)
@@ -112,36 +191,45 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
               console.warn("Error playing external audio", e);
           });
 
+          // Aligning needs the samples too; sources that refuse CORS keep the estimated timings
+          if (!article.alignment) {
+              downloadAudio(article.audioUrl, 22050)
+                  .then(alignIfNeeded)
+                  .catch(e => console.warn("Could not align external audio", e));
+          }
+
           return;
       }
 
-      // Case B: Generated TTS (Base64)
-      if (article.audioBase64) {
-          setIsExternalAudio(false);
-          const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-          const ctx = new AudioContextClass({ sampleRate: 24000 });
-          
-          const gainNode = ctx.createGain();
-          gainNode.gain.value = volume; 
-          gainNode.connect(ctx.destination);
-          gainNodeRef.current = gainNode;
+      // Case B: Generated TTS (Base64), or Case C: narration that is still being generated
+      setIsExternalAudio(false);
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      const ctx = new AudioContextClass({ sampleRate: 24000 });
+      
+      const gainNode = ctx.createGain();
+      gainNode.gain.value = volume; 
+      gainNode.connect(ctx.destination);
+      gainNodeRef.current = gainNode;
 
-          setAudioContext(ctx);
-          
-          try {
-            // Pass encoding type to decoder
-            const buffer = await decodeAudioData(article.audioBase64, ctx, article.audioEncoding || 'pcm');
-            setAudioBuffer(buffer);
-            setDuration(buffer.duration);
-          } catch (e) {
-            console.error("Error decoding audio", e);
-          }
+      setAudioContext(ctx);
+      // Case C fills the buffer as the narration stream grows
+      if (!article.audioBase64) return;
+      
+      try {
+        // Pass encoding type to decoder
+        const buffer = await decodeAudioData(article.audioBase64, ctx, article.audioEncoding || 'pcm');
+        setAudioBuffer(buffer);
+        setDuration(buffer.duration);
+        alignIfNeeded(buffer);
+      } catch (e) {
+        console.error("Error decoding audio", e);
       }
     };
 
     initAudio();
     
     return () => {
+      cancelled = true;
       if (audioContext && audioContext.state !== 'closed') audioContext.close();
       if (audioElRef.current) {
           audioElRef.current.pause();
@@ -150,6 +238,58 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
     };
   }, [article.id, article.audioUrl, article.audioBase64]);
 
+  // Case C: every new sentence of a streamed narration extends the buffer
+  useEffect(() => {
+    if (!isStreamed || !audioContext || narration.samples.length === 0) return;
+    const buffer = audioContext.createBuffer(1, narration.samples.length, narration.sampleRate);
+    buffer.getChannelData(0).set(narration.samples);
+    setAudioBuffer(buffer);
+    setDuration(buffer.duration);
+  }, [narration, audioContext, isStreamed]);
+
+  // A streamed narration is stretched as it grows, each new sentence once. The stretcher
+  // belongs to one narration request (its voice object) at one speed.
+  const stretcherRef = useRef<{ voice: VoicePreference, rate: number, stretcher: TimeStretcher } | null>(null);
+
+  // At other speeds the Web Audio engine plays a time-stretched copy, keeping the pitch.
+  // Positions stay in the original's time; the copy's are `rate` times smaller.
+  const playBuffer = useMemo(() => {
+    if (!audioBuffer || !audioContext || playbackRate === 1) return audioBuffer;
+    let stretched: Float32Array;
+    if (isStreamed) {
+      // The streamed buffer is mono and only ever grows
+      let current = stretcherRef.current;
+      if (!current || current.voice !== narration.voice || current.rate !== playbackRate) {
+        current = { voice: narration.voice, rate: playbackRate, stretcher: createTimeStretcher(audioBuffer.sampleRate, playbackRate) };
+        stretcherRef.current = current;
+      }
+      const samples = audioBuffer.getChannelData(0);
+      stretched = narration.done && samples.length === narration.samples.length
+        ? current.stretcher.finish(samples)
+        : current.stretcher.extend(samples);
+    } else {
+      const mono = new Float32Array(audioBuffer.length);
+      for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+        const channel = audioBuffer.getChannelData(c);
+        for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / audioBuffer.numberOfChannels;
+      }
+      stretched = timeStretch(mono, audioBuffer.sampleRate, playbackRate);
+    }
+    if (stretched.length === 0) return null;
+    const buffer = audioContext.createBuffer(1, stretched.length, audioBuffer.sampleRate);
+    buffer.getChannelData(0).set(stretched);
+    return buffer;
+  }, [audioBuffer, audioContext, playbackRate]);
+
+  // The HTML5 engine slows down by itself, pitch included where the browser supports it
+  useEffect(() => {
+    const audio = audioElRef.current;
+    if (!isExternalAudio || !audio) return;
+    audio.preservesPitch = true;
+    audio.defaultPlaybackRate = playbackRate;
+    audio.playbackRate = playbackRate;
+  }, [playbackRate, isExternalAudio, article.audioUrl]);
+
   // Volume update effect
   useEffect(() => {
     if (isExternalAudio && audioElRef.current) {
@@ -164,23 +304,39 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
     // Wait for duration to be known (parsed from buffer or loaded from metadata)
     if (!duration || !article.content) return;
 
-    const isoCode = getIsoCode(article.language);
-    let rawSegments: { segment: string, index: number }[] = [];
-    
-    try {
-        const segmenter = new (Intl as any).Segmenter(isoCode, { granularity: 'sentence' });
-        rawSegments = Array.from(segmenter.segment(article.content));
-    } catch (e) {
-        // Fallback regex split (Enhanced for CJK)
-        const raw = article.content.match(/[^.!?。！？]+[.!?。！？]+["']?|[^.!?。！？]+$/g) || [article.content];
-        let currentIndex = 0;
-        rawSegments = raw.map(s => {
-            const item = { segment: s, index: currentIndex };
-            currentIndex += s.length;
-            return item;
-        });
+    if (alignment) {
+        const timed = alignment.sentences.map((timing, i) => ({
+            id: `s-${i}`,
+            text: article.content.slice(timing.offset, timing.offset + timing.length),
+            startChar: timing.offset,
+            endChar: timing.offset + timing.length,
+            startTime: timing.start,
+            endTime: timing.end,
+            isWhitespace: false
+        }));
+        // A streamed narration has not reached the rest yet; it shows without timing
+        const narratedTo = timed.length > 0 ? timed[timed.length - 1].endChar : 0;
+        const pending = segmentSentences(article.content, article.language)
+            .filter(s => s.segment.trim() && s.index + s.segment.trimEnd().length > narratedTo)
+            .map((s, i) => {
+                const from = Math.max(s.index, narratedTo);
+                return {
+                    id: `s-${timed.length + i}`,
+                    text: article.content.slice(from, s.index + s.segment.length),
+                    startChar: from,
+                    endChar: s.index + s.segment.length,
+                    startTime: Infinity,
+                    endTime: Infinity,
+                    isWhitespace: false
+                };
+            });
+        setSentences([...timed, ...pending]);
+        return;
     }
 
+    // Until the audio is aligned (or when it cannot be), estimate from the text
+    const rawSegments = segmentSentences(article.content, article.language);
+
     // Heuristic Weighting - Refined for Better Timestamp Alignment
     const getWeight = (text: string) => {
        let w = text.length; 
@@ -223,7 +379,7 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
 
     setSentences(allMapped.filter(s => !s.isWhitespace));
 
-  }, [duration, article.content, article.language]);
+  }, [duration, article.content, article.language, alignment]);
 
   // 3. Playback Logic
   const play = useCallback((offset: number, range?: { start: number, end: number }) => {
@@ -250,24 +406,26 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
       }
 
       // Web Audio Engine
-      if (!isExternalAudio && audioContext && audioBuffer && gainNodeRef.current) {
+      if (!isExternalAudio && audioContext && audioBuffer && playBuffer && gainNodeRef.current) {
           // Stop existing
           if (sourceRef.current) {
               try { sourceRef.current.stop(); } catch(e){}
               sourceRef.current = null;
           }
 
+          const rate = playbackRate;
           const source = audioContext.createBufferSource();
-          source.buffer = audioBuffer;
+          source.buffer = playBuffer;
           source.connect(gainNodeRef.current);
 
           if (range) {
-              source.loop = true;
-              source.loopStart = range.start;
               // Clamp loopEnd to buffer duration to prevent glitches
-              source.loopEnd = Math.min(audioBuffer.duration, range.end);
+              const loopEnd = Math.min(audioBuffer.duration, range.end);
+              source.loop = true;
+              source.loopStart = range.start / rate;
+              source.loopEnd = loopEnd / rate;
               
-              if (offset < range.start || offset > source.loopEnd) {
+              if (offset < range.start || offset > loopEnd) {
                   offset = range.start;
               }
               setLoopRange(range);
@@ -276,22 +434,49 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
           }
 
           source.onended = () => {
+              const reachedEnd = (audioContext.currentTime - startTimeRef.current) * rate >= audioBuffer.duration - 0.1;
+              // Ran out of streamed narration: wait for the next sentences instead of stopping
+              if (sourceRef.current === source && !source.loop && isStreamingRef.current && reachedEnd) {
+                  setResumeAt(audioBuffer.duration);
+                  return;
+              }
               if (!source.loop) {
                  setIsPlaying(false);
-                 if (audioContext.currentTime - startTimeRef.current >= audioBuffer.duration - offset - 0.1) {
+                 if (reachedEnd) {
                      setCurrentTime(0);
                      pausedAtRef.current = 0;
                  }
               }
           };
 
-          source.start(0, offset);
+          source.start(0, offset / rate);
           sourceRef.current = source;
-          startTimeRef.current = audioContext.currentTime - offset;
+          startTimeRef.current = audioContext.currentTime - offset / rate;
+          rateRef.current = rate;
           pausedAtRef.current = offset;
           setIsPlaying(true);
       }
-  }, [audioContext, audioBuffer, isExternalAudio]);
+  }, [audioContext, audioBuffer, playBuffer, playbackRate, isExternalAudio]);
+
+  // A new speed takes over from where playback is, keeping any sentence loop
+  useEffect(() => {
+      if (isPlaying && !isExternalAudio && sourceRef.current && rateRef.current !== playbackRate) {
+          play(currentTime, loopRange || undefined);
+      }
+  }, [playbackRate]);
+
+  useEffect(() => {
+      if (resumeAt === null || !audioBuffer) return;
+      if (!isPlaying) {
+          setResumeAt(null);
+      } else if (audioBuffer.duration > resumeAt + 0.01) {
+          setResumeAt(null);
+          play(resumeAt);
+      } else if (!isStreamingRef.current || narration?.done) {
+          setResumeAt(null);
+          setIsPlaying(false);
+      }
+  }, [resumeAt, audioBuffer, isPlaying, narration, play]);
 
   const stop = useCallback(() => {
       if (isExternalAudio && audioElRef.current) {
@@ -316,7 +501,7 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
           stop();
           // Store pause position logic varies by engine
           if (!isExternalAudio && audioContext) {
-               pausedAtRef.current = audioContext.currentTime - startTimeRef.current;
+               pausedAtRef.current = (audioContext.currentTime - startTimeRef.current) * rateRef.current;
           } else if (isExternalAudio && audioElRef.current) {
                pausedAtRef.current = audioElRef.current.currentTime;
           }
@@ -344,19 +529,31 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
       }
   };
 
+  // Estimated timings need generous padding to be sure the full sentence is played
+  const sentenceRange = (sentence: SentenceData) => {
+      const PADDING_START = isAligned ? 0.05 : 0.1;
+      const PADDING_END = isAligned ? 0.25 : 1.0;
+      return { start: Math.max(0, sentence.startTime - PADDING_START), end: Math.min(duration, sentence.endTime + PADDING_END) };
+  };
+
   const handleSentenceClick = (sentence: SentenceData) => {
       // Don't trigger if selecting text
       const selection = window.getSelection();
       if (selection && selection.toString().length > 0) return;
+      // The click that ends a phrase drag lands here too
+      if (suppressClickRef.current) return;
+      // Not narrated yet
+      if (!isFinite(sentence.startTime)) return;
+
+      if (isShadowing) {
+          stop();
+          setShadowedOffset(sentence.startChar);
+          return;
+      }
 
       setLoopingSentenceId(sentence.id);
-      
-      // Add generous padding to ensure the full sentence and its natural pause are played
-      const PADDING_START = 0.1; 
-      const PADDING_END = 1.0; 
 
-      const safeStart = Math.max(0, sentence.startTime - PADDING_START);
-      const safeEnd = Math.min(duration, sentence.endTime + PADDING_END);
+      const { start: safeStart, end: safeEnd } = sentenceRange(sentence);
 
       setCurrentTime(safeStart);
       if (isExternalAudio && audioElRef.current) {
@@ -380,8 +577,8 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
               // For Web Audio, calculate manually
               if (!isExternalAudio && audioContext) {
                   if (loopRange && sourceRef.current?.loop) {
-                      const loopDuration = (sourceRef.current.loopEnd || loopRange.end) - sourceRef.current.loopStart;
-                      const rawElapsed = audioContext.currentTime - startTimeRef.current; 
+                      const loopDuration = ((sourceRef.current.loopEnd || loopRange.end / rateRef.current) - sourceRef.current.loopStart) * rateRef.current;
+                      const rawElapsed = (audioContext.currentTime - startTimeRef.current) * rateRef.current;
                       
                       // Calculate position within the loop
                       let linearPos = rawElapsed;
@@ -397,7 +594,7 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
                       }
                       setCurrentTime(linearPos);
                   } else {
-                      const rawTime = audioContext.currentTime - startTimeRef.current;
+                      const rawTime = (audioContext.currentTime - startTimeRef.current) * rateRef.current;
                       setCurrentTime(Math.min(rawTime, duration));
                   }
               }
@@ -416,68 +613,517 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
   }, [isPlaying, audioContext, duration, loopRange, isExternalAudio]);
 
 
-  // 5. Text Selection
-  const handleDoubleClick = () => {
-    const selection = window.getSelection();
-    if (selection && selection.toString().trim().length > 0) {
-      const word = selection.toString().trim();
-      const anchorNode = selection.anchorNode;
-      const context = anchorNode?.parentElement?.textContent || "";
-      
-      if (word.length < 50) {
-         onWordSelect(word, context);
+  // 5. Word States
+  // Recognizes saved words in any inflected form, not just the spelling that was looked up
+  const findSaved = useMemo(() => createFormMatcher(vocabulary, article.language), [vocabulary, article.language]);
+
+  const statusOf = useCallback((word: string): { status: WordStatus, item?: VocabularyItem } => {
+      const key = vocabularyKey(word, article.language);
+      if (knownWords.has(key) || isNumeric(word)) return { status: 'known' };
+      const item = findSaved(word);
+      return item ? { status: 'learning', item } : { status: 'new' };
+  }, [article.language, knownWords, findSaved]);
+
+  // Tokenize once per text; playback re-renders every frame. Offsets are relative to the article.
+  const sentenceTokens = useMemo(
+      () => new Map(sentences.map(s => [
+          s.id,
+          tokenizeText(s.text, article.language).map(t => ({ ...t, index: t.index + s.startChar }))
+      ])),
+      [sentences, article.language]
+  );
+
+  // Sentence boundaries independent of audio timing, for capturing context and translating
+  const contextSentences = useMemo(
+      () => segmentSentences(article.content, article.language).filter(s => s.segment.trim()),
+      [article.content, article.language]
+  );
+
+  // Without audio timing the text keeps its paragraphs, split into sentences
+  const paragraphSentences = useMemo(() => {
+      let offset = 0;
+      return article.content.split('\n').map(para => {
+          const start = offset;
+          const end = offset + para.length;
+          offset = end + 1;
+          return contextSentences
+              .filter(s => s.index < end && s.index + s.segment.length > start)
+              .map(s => {
+                  const from = Math.max(s.index, start);
+                  const text = article.content.slice(from, Math.min(s.index + s.segment.length, end));
+                  return { sentence: s, tokens: tokenizeText(text, article.language).map(t => ({ ...t, index: t.index + from })) };
+              });
+      });
+  }, [article.content, article.language, contextSentences]);
+
+  const remainingNewWords = useMemo(() => {
+      const seen = new Set<string>();
+      return segmentWords(article.content, article.language)
+          .map(t => t.segment)
+          .filter(word => {
+              const key = vocabularyKey(word, article.language);
+              if (seen.has(key) || statusOf(word).status !== 'new') return false;
+              seen.add(key);
+              return true;
+          });
+  }, [article.content, article.language, statusOf]);
+
+  // 6. Word & Phrase Selection
+  // Pressing on a word and releasing on the same word opens it; dragging to another word
+  // (also across sentences) selects everything in between as a phrase.
+  const [drag, setDrag] = useState<DragSelection | null>(null);
+  const dragRef = useRef<DragSelection | null>(null);
+  const suppressClickRef = useRef(false);
+
+  const dragSpan = (selection: DragSelection) => ({
+      start: Math.min(selection.anchor.index, selection.focus.index),
+      end: Math.max(selection.anchor.index + selection.anchor.segment.length, selection.focus.index + selection.focus.segment.length)
+  });
+
+  // Every sentence the span touches, exactly as written in the article
+  const contextFor = useCallback((start: number, end: number) => {
+      const touched = contextSentences.filter(s => s.index < end && s.index + s.segment.length > start);
+      if (touched.length === 0) return '';
+      const last = touched[touched.length - 1];
+      return article.content.slice(touched[0].index, last.index + last.segment.length).trim();
+  }, [contextSentences, article.content]);
+
+  const updateDrag = (selection: DragSelection | null) => {
+      dragRef.current = selection;
+      setDrag(selection);
+  };
+
+  useEffect(() => {
+      const handleMouseUp = () => {
+          const selection = dragRef.current;
+          if (!selection) return;
+          updateDrag(null);
+
+          const { start, end } = dragSpan(selection);
+          if (selection.anchor.index !== selection.focus.index) {
+              // Swallow the click that follows this mouseup, then re-enable sentence clicks
+              suppressClickRef.current = true;
+              setTimeout(() => { suppressClickRef.current = false; }, 0);
+          }
+          const text = article.content.slice(start, end).replace(/\s+/g, ' ').trim();
+          if (!text || text.length > MAX_PHRASE_LENGTH) return;
+
+          onWordSelect(text, contextFor(start, end), { articleId: article.id, offset: start });
+      };
+      window.addEventListener('mouseup', handleMouseUp);
+      return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [article.id, article.content, contextFor, onWordSelect]);
+
+  const handleWordMouseDown = (e: React.MouseEvent, token: TextToken) => {
+      if (e.button !== 0) return;
+      // Our own highlight replaces the browser's text selection
+      e.preventDefault();
+      window.getSelection()?.removeAllRanges();
+      updateDrag({ anchor: token, focus: token });
+  };
+
+  const handleWordMouseEnter = (token: TextToken) => {
+      if (dragRef.current) updateDrag({ ...dragRef.current, focus: token });
+  };
+
+  const selectedSpan = drag ? dragSpan(drag) : null;
+
+  // 7. Jump to Sentence
+  // Scrolling works as soon as the text is rendered; seeking waits for the audio timeline.
+  const articleRef = useRef<HTMLElement | null>(null);
+  const seekProgressRef = useRef<{ nonce: number, scrolled: boolean, seeked: boolean } | null>(null);
+
+  useEffect(() => {
+      if (!seekTo) return;
+      if (seekProgressRef.current?.nonce !== seekTo.nonce) {
+          seekProgressRef.current = { nonce: seekTo.nonce, scrolled: false, seeked: false };
       }
-    }
+      const progress = seekProgressRef.current;
+
+      if (!progress.scrolled && articleRef.current) {
+          const tokens = Array.from(articleRef.current.querySelectorAll('[data-offset]')) as HTMLElement[];
+          const target = tokens.find(el => Number(el.dataset.offset) >= seekTo.offset);
+          target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+          progress.scrolled = true;
+      }
+
+      const sentence = sentences.find(s => seekTo.offset >= s.startChar && seekTo.offset < s.endChar);
+      if (!progress.seeked && sentence && isFinite(sentence.startTime)) {
+          setCurrentTime(sentence.startTime);
+          pausedAtRef.current = sentence.startTime;
+          if (isExternalAudio && audioElRef.current) {
+              audioElRef.current.currentTime = sentence.startTime;
+          }
+          progress.seeked = true;
+      }
+  }, [seekTo?.nonce, sentences, isExternalAudio]);
+
+  // 8. Reading Aids
+  const readingLabel = readingSystem(article.language);
+  const readingsByOffset = useMemo(
+      () => new Map<number, ReadingAnnotation>((article.readings || []).map(r => [r.offset, r])),
+      [article.readings]
+  );
+
+  const renderWordText = (token: TextToken, status: WordStatus) => {
+      const showReadings = readingMode === 'on' || (readingMode === 'unknown' && status !== 'known');
+      if (!showReadings || readingsByOffset.size === 0) return token.segment;
+      return readingPieces(token.segment, token.index, readingsByOffset).map((piece, i) => piece.reading ? (
+          <ruby key={i}>
+            {piece.text}
+            <rt className="text-[0.5em] font-normal text-slate-500 select-none">{piece.reading}</rt>
+          </ruby>
+      ) : (
+          <React.Fragment key={i}>{piece.text}</React.Fragment>
+      ));
+  };
+
+  // 9. Translations
+  const [showAllTranslations, setShowAllTranslations] = useState(false);
+  const [revealedTranslations, setRevealedTranslations] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+      setRevealedTranslations(new Set());
+  }, [article.id]);
+
+  // Fetch whatever is shown but not cached for the current target language
+  useEffect(() => {
+      const shown = showAllTranslations ? contextSentences : contextSentences.filter(s => revealedTranslations.has(s.index));
+      if (shown.length > 0) onTranslate(shown);
+  }, [showAllTranslations, revealedTranslations, translationTarget, article.id]);
+
+  const toggleTranslation = (e: React.MouseEvent, sentence: TextSegment) => {
+      // Translating should not start the sentence loop
+      e.stopPropagation();
+      setRevealedTranslations(prev => {
+          const next = new Set(prev);
+          if (next.has(sentence.index)) next.delete(sentence.index);
+          else next.add(sentence.index);
+          return next;
+      });
+  };
+
+  const renderTranslateButton = (sentence: TextSegment) => (
+      <button
+        onClick={(e) => toggleTranslation(e, sentence)}
+        onMouseDown={(e) => e.stopPropagation()}
+        className={`inline-flex align-middle ml-1 -mt-0.5 p-0.5 rounded text-indigo-400 hover:text-indigo-700 hover:bg-indigo-100 transition-opacity
+          ${revealedTranslations.has(sentence.index) ? 'opacity-100' : 'opacity-0 group-hover/sentence:opacity-100'}`}
+        title={revealedTranslations.has(sentence.index) ? 'Hide translation' : 'Translate sentence'}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" /></svg>
+      </button>
+  );
+
+  const renderTranslation = (offset: number) => {
+      if (!showAllTranslations && !revealedTranslations.has(offset)) return null;
+      const translation = cachedTranslation(article, translationTarget, offset);
+      return (
+        <span className="block my-1 pl-3 border-l-2 border-indigo-100 text-base leading-relaxed text-slate-500">
+          {translation ?? (translationStatus === 'loading' ? 'Translating...' : 'Translation unavailable.')}
+        </span>
+      );
+  };
+
+  // 10. Grammar
+  // The neighbouring sentences help with ellipsis and references across sentences
+  const explainGrammarOf = (e: React.MouseEvent, sentence: TextSegment) => {
+      e.stopPropagation();
+      const at = contextSentences.findIndex(s => s.index === sentence.index);
+      const context = at < 0 ? '' : contextFor(contextSentences[Math.max(0, at - 1)].index, contextSentences[Math.min(contextSentences.length - 1, at + 1)].index + 1);
+      onExplainGrammar(sentence, context);
+  };
+
+  const renderGrammarButton = (sentence: TextSegment) => (
+      <button
+        onClick={(e) => explainGrammarOf(e, sentence)}
+        onMouseDown={(e) => e.stopPropagation()}
+        className="inline-flex align-middle ml-0.5 -mt-0.5 p-0.5 rounded text-indigo-400 hover:text-indigo-700 hover:bg-indigo-100 opacity-0 group-hover/sentence:opacity-100 transition-opacity"
+        title="Explain grammar"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+      </button>
+  );
+
+  // 11. Narration Voice
+  // Only generated narration can be replaced; official audio is what it is
+  const canRegenerate = !article.audioUrl && (!isStreamed || narration.done || narration.failed);
+  const [voiceDraft, setVoiceDraft] = useState<VoicePreference | null>(null);
+
+  useEffect(() => {
+      setVoiceDraft(null);
+  }, [article.id]);
+
+  const regenerateNarration = () => {
+      if (!voiceDraft) return;
+      stop();
+      onRegenerateNarration(voiceDraft);
+      setVoiceDraft(null);
+  };
+
+  // 12. Shadowing
+  // Clicking a sentence opens it for shadowing instead of looping it
+  const [isShadowing, setIsShadowing] = useState(false);
+  const [shadowedOffset, setShadowedOffset] = useState<number | null>(null);
+  const [reference, setReference] = useState<SpeechSamples | null>(null);
+  const [referenceStatus, setReferenceStatus] = useState<'loading' | 'failed' | undefined>();
+  const externalSamplesRef = useRef<Promise<AudioBuffer> | null>(null);
+
+  useEffect(() => {
+      setShadowedOffset(null);
+      externalSamplesRef.current = null;
+  }, [article.id, article.audioUrl]);
+
+  const shadowed = shadowedOffset === null ? undefined : sentences.find(s => shadowedOffset >= s.startChar && shadowedOffset < s.endChar);
+  // Timings may be refined while attempts are kept, so they are matched by position
+  const recordingsOf = (sentence: SentenceData) => recordings.filter(r => r.offset >= sentence.startChar && r.offset < sentence.endChar);
+
+  // The narrated sentence, at the speed the learner listens at
+  useEffect(() => {
+      if (!shadowed || !isFinite(shadowed.startTime)) {
+          setReference(null);
+          setReferenceStatus(undefined);
+          return;
+      }
+      const { start, end } = sentenceRange(shadowed);
+      if (!isExternalAudio) {
+          setReference(audioBuffer ? sliceSpeech(audioBuffer, start, end, playbackRate) : null);
+          setReferenceStatus(audioBuffer ? undefined : 'loading');
+          return;
+      }
+
+      // Sources that refuse CORS can be played but not compared with
+      if (!externalSamplesRef.current) externalSamplesRef.current = downloadAudio(article.audioUrl!, 24000);
+      let cancelled = false;
+      setReference(null);
+      setReferenceStatus('loading');
+      externalSamplesRef.current
+          .then(buffer => {
+              if (cancelled) return;
+              setReference(sliceSpeech(buffer, start, end, playbackRate));
+              setReferenceStatus(undefined);
+          })
+          .catch(e => {
+              console.warn("Could not load external audio for shadowing", e);
+              if (!cancelled) setReferenceStatus('failed');
+          });
+      return () => {
+          cancelled = true;
+      };
+  }, [shadowed?.startChar, shadowed?.startTime, shadowed?.endTime, audioBuffer, isExternalAudio, playbackRate]);
+
+  const toggleShadowing = () => {
+      if (isShadowing) setShadowedOffset(null);
+      else {
+          stop();
+          setLoopingSentenceId(null);
+      }
+      setIsShadowing(v => !v);
+  };
+
+  // Best attempt per sentence, shown next to it while shadowing
+  const bestScoreOf = (sentence: SentenceData) => {
+      const attempts = recordingsOf(sentence);
+      return attempts.length > 0 ? Math.max(...attempts.map(r => r.score.overall)) : null;
   };
 
+  const renderTokens = (tokens: TextToken[]) => tokens.map((token, i) => {
+      if (!token.isWord) return <React.Fragment key={i}>{token.segment}</React.Fragment>;
+      const { status, item } = statusOf(token.segment);
+      const isSelected = !!selectedSpan && token.index >= selectedSpan.start && token.index < selectedSpan.end;
+      return (
+        <span
+          key={i}
+          data-offset={token.index}
+          onMouseDown={(e) => handleWordMouseDown(e, token)}
+          onMouseEnter={() => handleWordMouseEnter(token)}
+          // Words open on release; the surrounding sentence should not start looping
+          onClick={(e) => e.stopPropagation()}
+          className={`rounded-sm cursor-pointer hover:underline decoration-indigo-400 underline-offset-4
+            ${isSelected ? 'bg-indigo-200' : token.index === spokenWordOffset ? 'bg-yellow-300' : status === 'new' ? 'bg-sky-100' : ''}
+            ${!isSelected && token.index !== spokenWordOffset && status === 'learning' && item ? learningClass(item.reviewStage) : ''}
+          `}
+          title={status === 'learning' && item ? `Learning · stage ${item.reviewStage}` : status === 'new' ? 'New word' : undefined}
+        >
+          {renderWordText(token, status)}
+          {status === 'learning' && item && (
+            <sup className="text-[9px] font-bold text-amber-600 ml-px select-none">{item.reviewStage}</sup>
+          )}
+        </span>
+      );
+  });
+
   const activeSentenceId = useMemo(() => {
-      return sentences.find(s => currentTime >= s.startTime && currentTime < s.endTime)?.id;
-  }, [currentTime, sentences]);
+      if (!isAligned) return sentences.find(s => currentTime >= s.startTime && currentTime < s.endTime)?.id;
+      // Measured sentences leave the pauses between them uncovered; keep the last one lit
+      let active: SentenceData | undefined;
+      for (const s of sentences) {
+          if (s.startTime > currentTime) break;
+          active = s;
+      }
+      return active?.id;
+  }, [currentTime, sentences, isAligned]);
+
+  // Karaoke: the word being spoken, by its offset in the article
+  const spokenWordOffset = alignment && isPlaying ? timingAt(alignment.words, currentTime)?.offset : undefined;
 
   return (
     <div className="max-w-3xl mx-auto animate-fade-in pb-32 px-2 md:px-0">
       {/* Article Header Information */}
       <div className="mb-8 mt-4 border-b border-slate-100 pb-6">
           <h1 className="text-3xl font-bold text-slate-800 leading-tight mb-4">{article.title}</h1>
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
              {isExternalAudio && (
                  <span className="text-xs font-mono text-orange-600 bg-orange-50 px-2 py-1 rounded inline-block border border-orange-100">
                      Official Audio
                  </span>
              )}
+             {isStreamed && !narration.done && (
+                 narration.failed ? (
+                     <button onClick={onRetryNarration} className="text-xs font-mono text-rose-600 bg-rose-50 px-2 py-1 rounded inline-block border border-rose-100 hover:bg-rose-100" title="Some sentences could not be narrated">
+                         Narration incomplete · Retry
+                     </button>
+                 ) : (
+                     <span className="text-xs font-mono text-indigo-600 bg-indigo-50 px-2 py-1 rounded inline-flex items-center gap-1.5 border border-indigo-100" title="Playback can start with the sentences narrated so far">
+                         <span className="w-2.5 h-2.5 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></span>
+                         Narrating {narration.chunksReady}/{narration.chunksTotal}
+                     </span>
+                 )
+             )}
+             {isAligned && (
+                 <span className="text-xs font-mono text-emerald-600 bg-emerald-50 px-2 py-1 rounded inline-block border border-emerald-100" title="Sentence and word timings measured on the audio">
+                     Synced
+                 </span>
+             )}
              <span className={`text-xs font-mono px-2 py-1 rounded inline-block transition-colors ${loopingSentenceId ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 bg-slate-50'}`}>
                  {loopingSentenceId ? 'Looping Segment' : 'Standard Playback'}
              </span>
+             <div className="ml-auto flex flex-wrap items-center justify-end gap-4 text-xs">
+             <div className="flex items-center gap-2">
+                 {translationStatus === 'loading' && (
+                     <span className="w-3 h-3 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin" title="Translating..."></span>
+                 )}
+                 {translationStatus === 'failed' && (
+                     <button
+                         onClick={() => onTranslate(showAllTranslations ? contextSentences : contextSentences.filter(s => revealedTranslations.has(s.index)))}
+                         className="text-rose-600 hover:text-rose-800 font-medium"
+                         title="Some sentences could not be translated"
+                     >
+                         Retry
+                     </button>
+                 )}
+                 <button
+                     onClick={toggleShadowing}
+                     className={`px-2 py-1 rounded-lg border transition-colors ${isShadowing ? 'bg-rose-600 border-rose-600 text-white' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                     title="Click a sentence to repeat it after the narration and compare"
+                 >
+                     Shadowing
+                 </button>
+                 <button
+                     onClick={() => setShowAllTranslations(v => !v)}
+                     className={`px-2 py-1 rounded-lg border transition-colors ${showAllTranslations ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                     title="Show a translation under every sentence"
+                 >
+                     Parallel Translation
+                 </button>
+                 <div className="flex rounded-lg border border-slate-200 overflow-hidden">
+                     {TRANSLATION_TARGETS.map(({ target, label, name }) => (
+                         <button
+                             key={target}
+                             onClick={() => onTranslationTargetChange(target)}
+                             className={`px-2 py-1 transition-colors ${translationTarget === target ? 'bg-indigo-600 text-white' : 'bg-white text-slate-500 hover:bg-slate-50'}`}
+                             title={`Translate into ${name}`}
+                         >
+                             {label}
+                         </button>
+                     ))}
+                 </div>
+             </div>
+             {readingLabel && (
+                 <div className="flex items-center gap-2">
+                     {readingsStatus === 'loading' && (
+                         <span className="w-3 h-3 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin" title={`Generating ${readingLabel}...`}></span>
+                     )}
+                     {readingsStatus === 'failed' && (
+                         <button onClick={onRetryReadings} className="text-rose-600 hover:text-rose-800 font-medium" title={`${readingLabel} could not be generated`}>
+                             Retry
+                         </button>
+                     )}
+                     <span className="font-medium text-slate-400">{readingLabel}</span>
+                     <div className="flex rounded-lg border border-slate-200 overflow-hidden">
+                         {READING_MODES.map(({ mode, label }) => (
+                             <button
+                                 key={mode}
+                                 onClick={() => onReadingModeChange(mode)}
+                                 className={`px-2 py-1 transition-colors ${readingMode === mode ? 'bg-indigo-600 text-white' : 'bg-white text-slate-500 hover:bg-slate-50'}`}
+                             >
+                                 {label}
+                             </button>
+                         ))}
+                     </div>
+                 </div>
+             )}
+             </div>
           </div>
       </div>
 
       {/* Content */}
       <article 
+        ref={articleRef}
         className="article-text text-lg md:text-xl leading-loose text-slate-800 select-text"
-        onDoubleClick={handleDoubleClick}
       >
         {sentences.length === 0 ? (
-            article.content.split('\n').map((para, i) => <p key={i} className="mb-6">{para}</p>)
+            paragraphSentences.map((parts, i) => (
+              <p key={i} className="mb-6">
+                {parts.map(({ sentence, tokens }) => (
+                  <React.Fragment key={tokens[0]?.index ?? sentence.index}>
+                    <span className="group/sentence">
+                      {renderTokens(tokens)}
+                      {renderTranslateButton(sentence)}
+                      {renderGrammarButton(sentence)}
+                    </span>
+                    {renderTranslation(sentence.index)}
+                  </React.Fragment>
+                ))}
+              </p>
+            ))
         ) : (
             <div className="space-y-6">
                <p>
                    {sentences.map((s) => {
                        const isActive = s.id === activeSentenceId;
                        const isLooping = s.id === loopingSentenceId;
+                       const isNarrated = isFinite(s.startTime);
+                       const isShadowed = s.id === shadowed?.id;
+                       const bestScore = isShadowing ? bestScoreOf(s) : null;
                        
                        return (
+                         <React.Fragment key={s.id}>
                          <span 
-                            key={s.id}
                             onClick={() => handleSentenceClick(s)}
                             className={`
-                                transition-colors duration-200 rounded px-1 py-0.5 cursor-pointer
-                                ${isActive ? 'bg-yellow-100 text-slate-900' : 'hover:bg-indigo-50'}
+                                group/sentence transition-colors duration-200 rounded px-1 py-0.5
+                                ${!isNarrated ? 'text-slate-500' : isActive ? 'bg-yellow-100 text-slate-900 cursor-pointer' : 'hover:bg-indigo-50 cursor-pointer'}
                                 ${isLooping ? 'ring-2 ring-indigo-400 bg-indigo-50' : ''}
+                                ${isShadowed ? 'ring-2 ring-rose-400 bg-rose-50' : ''}
                             `}
-                            title="Click to play sentence. Double click word to add to vocabulary."
+                            title={isNarrated ? undefined : 'Narration in progress'}
                          >
-                            {s.text}{' '}
+                            {renderTokens(sentenceTokens.get(s.id) || [])}
+                            {isNarrated && (isShadowing ? (
+                                <svg className="inline w-3.5 h-3.5 ml-1 -mt-0.5 text-rose-400 opacity-0 group-hover/sentence:opacity-100 transition-opacity" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-label="Shadow sentence"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+                            ) : (
+                                <svg className="inline w-3.5 h-3.5 ml-1 -mt-0.5 text-indigo-400 opacity-0 group-hover/sentence:opacity-100 transition-opacity" fill="currentColor" viewBox="0 0 24 24" aria-label="Play sentence"><path d="M8 5v14l11-7z"/></svg>
+                            ))}
+                            {bestScore !== null && (
+                                <sup className="text-[10px] font-bold text-rose-500 ml-0.5 select-none" title="Best shadowing score">{Math.round(bestScore * 100)}%</sup>
+                            )}
+                            {renderTranslateButton({ segment: s.text, index: s.startChar })}
+                            {renderGrammarButton({ segment: s.text, index: s.startChar })}
+                            {' '}
                          </span>
+                         {renderTranslation(s.startChar)}
+                         </React.Fragment>
                        );
                    })}
                </p>
@@ -485,6 +1131,21 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
         )}
       </article>
 
+      {/* Finish Reading */}
+      {remainingNewWords.length > 0 && (
+        <div className="mt-8 flex flex-col sm:flex-row items-center justify-between gap-3 p-4 border border-slate-200 rounded-xl">
+            <p className="text-sm text-slate-500">
+                Finished? {remainingNewWords.length} word{remainingNewWords.length === 1 ? '' : 's'} you have not looked up are still marked as new.
+            </p>
+            <button
+                onClick={() => onMarkKnown(remainingNewWords)}
+                className="px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 transition-colors whitespace-nowrap"
+            >
+                Mark All Remaining as Known
+            </button>
+        </div>
+      )}
+
       {/* Dedicated Audio Controls Section */}
       <div className="mt-12 border-t border-slate-100 pt-8">
         <div className="bg-white border border-slate-200 rounded-2xl p-6 shadow-sm">
@@ -573,6 +1234,51 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
                         </div>
                     </div>
                 </div>
+
+                {/* Playback Speed */}
+                <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t border-slate-100 text-sm">
+                    <span className="text-slate-500">Speed</span>
+                    <div className="flex bg-slate-100 rounded-lg p-0.5">
+                        {PLAYBACK_RATES.map(rate => (
+                            <button
+                                key={rate}
+                                onClick={() => onPlaybackRateChange(rate)}
+                                className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${playbackRate === rate ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                            >
+                                {rate}x
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Narration Voice */}
+                {!article.audioUrl && (
+                    <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t border-slate-100 text-sm">
+                        <span className="text-slate-500">
+                            Voice: <span className="font-medium text-slate-700">{article.narrationVoice ? describeVoice(article.narrationVoice) : isStreamed && !narration.done ? 'Generating...' : 'Unknown'}</span>
+                        </span>
+                        {voiceDraft ? (
+                            <div className="flex flex-wrap items-center gap-2">
+                                <VoicePicker value={voiceDraft} onChange={setVoiceDraft} />
+                                <button onClick={regenerateNarration} className="px-3 py-1 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 transition-colors">
+                                    Regenerate
+                                </button>
+                                <button onClick={() => setVoiceDraft(null)} className="px-2 py-1 text-slate-400 hover:text-slate-600">
+                                    Cancel
+                                </button>
+                            </div>
+                        ) : (
+                            <button
+                                onClick={() => setVoiceDraft(voicePreference)}
+                                disabled={!canRegenerate}
+                                className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-40 disabled:cursor-default"
+                                title="Narrate this article again with another voice or speed"
+                            >
+                                Change Voice
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
 
@@ -583,12 +1289,31 @@ export const ArticleView: React.FC<Props> = ({ article, onWordSelect }) => {
         <div>
             <p className="font-semibold mb-1">Interactive Learning Tips:</p>
             <ul className="list-disc list-inside space-y-1 opacity-90">
-                <li>Click any sentence to listen to it on loop.</li>
-                <li><strong>Double-click</strong> any word to see definitions and add it to your vocabulary list.</li>
-                <li>Use the audio controls below to control speed and volume.</li>
+                <li>Click the space between words (or the ▶ at the end) to listen to a sentence on loop.</li>
+                <li><strong>Drag</strong> across several words to look up a phrase or collocation.</li>
+                <li><strong>Click</strong> any word to see definitions and add it to your vocabulary list. <span className="bg-sky-100 px-1 rounded-sm">New</span> words are highlighted, <span className="bg-amber-100 px-1 rounded-sm">learning</span> words show their review stage.</li>
+                {readingLabel && <li>Show {readingLabel} over every word, only over words not yet marked as known, or not at all.</li>}
+                <li>Hover a sentence and use the translate icon to see it in English or Chinese, or turn on <strong>Parallel Translation</strong> for the whole article.</li>
+                <li>Use the <strong>?</strong> icon on a sentence to explain its grammar and save the points to your Grammar Notebook.</li>
+                {isAligned && <li>While the audio plays, the word being spoken is highlighted.</li>}
+                <li>Turn on <strong>Shadowing</strong> and click a sentence to repeat it after the narration, then compare your recording with it.</li>
+                <li>Use the audio controls below to control volume and <strong>Speed</strong> (slowed without lowering the pitch), and <strong>Change Voice</strong> to narrate the article again with another voice.</li>
             </ul>
         </div>
       </div>
+      </div>
+
+      {shadowed && (
+        <ShadowingPanel
+          sentence={{ text: shadowed.text, offset: shadowed.startChar }}
+          reference={reference}
+          referenceStatus={referenceStatus}
+          recordings={recordingsOf(shadowed)}
+          onSave={onSaveRecording}
+          onDelete={onDeleteRecording}
+          onClose={() => setShadowedOffset(null)}
+        />
+      )}
     </div>
   );
 };
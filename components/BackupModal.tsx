@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { ApiSettings, VocabularyItem } from '../types';
+import { createBackup, readBackup, restoreBackup, BackupContents, RestoreStrategy, RestoreSummary } from '../services/backupService';
+import { downloadBlob, fileDateStamp } from '../services/fileService';
+
+interface Props {
+  vocabulary: VocabularyItem[];
+  settings: ApiSettings;
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+export const BackupModal: React.FC<Props> = ({ vocabulary, settings, onRestored, onClose }) => {
+  const [includeApiKeys, setIncludeApiKeys] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Restore flow
+  const [backup, setBackup] = useState<BackupContents | null>(null);
+  const [strategy, setStrategy] = useState<RestoreStrategy>('merge');
+  const [summary, setSummary] = useState<RestoreSummary | null>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const blob = await createBackup({ includeApiKeys });
+      downloadBlob(blob, `linguistdaily-backup-${fileDateStamp()}.zip`);
+    } catch (e: any) {
+      console.error("Backup failed", e);
+      setError(e?.message || 'Backup failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsBusy(true);
+    setError(null);
+    setSummary(null);
+    try {
+      setBackup(await readBackup(file));
+    } catch (err: any) {
+      console.error("Invalid backup", err);
+      setBackup(null);
+      setError(err?.message || 'Could not read backup');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (strategy === 'replace' && !confirm('Replace all history and vocabulary on this device with the backup?')) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      setSummary(await restoreBackup(backup, strategy, vocabulary, settings));
+      setBackup(null);
+      onRestored();
+    } catch (e: any) {
+      console.error("Restore failed", e);
+      setError(e?.message || 'Restore failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full animate-scale-in overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-indigo-50">
+          <h2 className="text-xl font-bold text-slate-800">Backup & Restore</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Export */}
+          <div className="space-y-3">
+            <label className="block text-xs font-bold text-slate-600 uppercase">Export Everything</label>
+            <p className="text-sm text-slate-500">
+              Reading history, vocabulary with review progress and audio, and your settings in one file.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked={includeApiKeys} onChange={e => setIncludeApiKeys(e.target.checked)} />
+              Include API keys
+            </label>
+            <button
+              onClick={handleExport}
+              disabled={isBusy}
+              className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50"
+            >
+              Download Backup
+            </button>
+          </div>
+
+          <hr className="border-slate-100" />
+
+          {/* Restore */}
+          <div className="space-y-3">
+            <label className="block text-xs font-bold text-slate-600 uppercase">Restore</label>
+            <input
+              type="file"
+              accept=".zip"
+              onChange={handleFileChosen}
+              disabled={isBusy}
+              className="block w-full text-sm text-slate-500 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-slate-100 file:text-slate-700 hover:file:bg-slate-200"
+            />
+
+            {backup && (
+              <div className="space-y-3">
+                <div className="text-sm text-slate-600 bg-slate-50 p-3 rounded-lg border border-slate-100">
+                  Backup from {new Date(backup.manifest.createdAt).toLocaleString()}:
+                  {' '}{backup.history.length} articles, {backup.vocabulary.length} words
+                  {backup.manifest.includesApiKeys && ', API keys'}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  {(['merge', 'replace'] as RestoreStrategy[]).map(s => (
+                    <button
+                      key={s}
+                      onClick={() => setStrategy(s)}
+                      className={`py-2 px-3 rounded-lg text-sm font-medium border transition-all
+                        ${strategy === s
+                          ? 'bg-indigo-600 text-white border-indigo-600'
+                          : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'
+                        }
+                      `}
+                    >
+                      {s === 'merge' ? 'Merge' : 'Replace'}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-400">
+                  {strategy === 'merge'
+                    ? 'Adds missing items. For words on both sides, the most recently reviewed copy wins.'
+                    : 'Deletes history and vocabulary on this device, then loads the backup.'}
+                </p>
+                <button
+                  onClick={handleRestore}
+                  disabled={isBusy}
+                  className="w-full bg-slate-800 text-white py-3 rounded-xl font-bold hover:bg-slate-900 transition-colors shadow-sm disabled:opacity-50"
+                >
+                  Restore Backup
+                </button>
+              </div>
+            )}
+
+            {summary && (
+              <div className="text-sm text-emerald-700 bg-emerald-50 p-3 rounded-lg border border-emerald-100">
+                Restored {summary.articlesAdded} articles and {summary.vocabularyAdded} new words
+                {summary.vocabularyUpdated > 0 && `, updated ${summary.vocabularyUpdated}`}
+                {summary.vocabularyKept > 0 && `, kept ${summary.vocabularyKept} newer local copies`}.
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-rose-50 text-rose-700 text-sm p-3 rounded-lg border border-rose-100">{error}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
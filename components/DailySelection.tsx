@@ -1,13 +1,25 @@
 import React from 'react';
-import { Article } from '../types';
+import { Article, ArticleDifficulty } from '../types';
+import { formatKnownRatio } from '../services/difficultyService';
 
 interface Props {
   articles: Article[];
   onSelect: (article: Article) => void;
   language: string;
+  isLoading?: boolean; // Languages outside the study profile are generated when opened
+  onRetry?: () => void;
 }
 
-export const DailySelection: React.FC<Props> = ({ articles, onSelect, language }) => {
+const DifficultyInfo: React.FC<{ difficulty: ArticleDifficulty, className: string }> = ({ difficulty, className }) => (
+  <span
+    className={className}
+    title={`${difficulty.tokens} words · ${difficulty.uniqueLemmas} unique · ${difficulty.avgSentenceLength.toFixed(1)} words per sentence`}
+  >
+    {formatKnownRatio(difficulty)}
+  </span>
+);
+
+export const DailySelection: React.FC<Props> = ({ articles, onSelect, language, isLoading, onRetry }) => {
   // Identify the news article (it has a sourceUrl)
   const newsArticle = articles.find(a => a.sourceUrl);
   const otherArticles = articles.filter(a => a !== newsArticle);
@@ -24,6 +36,24 @@ export const DailySelection: React.FC<Props> = ({ articles, onSelect, language }
         Select an article to begin. We've curated the top story of the day and some interesting cultural topics for you.
       </p>
 
+      {isLoading && articles.length === 0 && (
+        <div className="flex flex-col items-center gap-3 text-slate-500">
+          <div className="w-8 h-8 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+          <p className="text-sm">Preparing today's {language} readings...</p>
+        </div>
+      )}
+
+      {!isLoading && articles.length === 0 && (
+        <div className="flex flex-col items-center gap-3 text-slate-500">
+          <p className="text-sm">No readings are available right now. Please check your API settings or quota.</p>
+          {onRetry && (
+            <button onClick={onRetry} className="px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 transition-colors">
+              Try Again
+            </button>
+          )}
+        </div>
+      )}
+
       <div className="w-full max-w-4xl px-4 grid gap-6 md:grid-cols-3">
         {/* Top News Card */}
         {newsArticle && (
@@ -38,16 +68,24 @@ export const DailySelection: React.FC<Props> = ({ articles, onSelect, language }
                     <div className="flex items-center gap-2 mb-3 text-indigo-100 text-xs font-mono uppercase">
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v1m2 13a2 2 0 01-2-2V7m2 13a2 2 0 002-2V9a2 2 0 00-2-2h-2m-4-3H9M7 16h6M7 8h6v4H7V8z" /></svg>
                         Global News
+                        {newsArticle.level && (
+                            <span className="ml-1 px-1.5 py-0.5 rounded bg-white/20 font-bold" title="Target level">{newsArticle.level}</span>
+                        )}
                     </div>
                     <h3 className="text-2xl font-bold mb-3 leading-tight">{newsArticle.title}</h3>
                     <p className="text-indigo-100 line-clamp-2 mb-4 text-sm opacity-90">
                         {newsArticle.content.substring(0, 150)}...
                     </p>
                     <div className="flex items-center justify-between mt-4">
-                        <span className="inline-flex items-center gap-1 bg-white/20 hover:bg-white/30 px-3 py-1.5 rounded-full text-xs font-medium transition-colors">
-                            Read & Listen
-                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
-                        </span>
+                        <div className="flex items-center gap-3">
+                            <span className="inline-flex items-center gap-1 bg-white/20 hover:bg-white/30 px-3 py-1.5 rounded-full text-xs font-medium transition-colors">
+                                Read & Listen
+                                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
+                            </span>
+                            {newsArticle.difficulty && (
+                                <DifficultyInfo difficulty={newsArticle.difficulty} className="text-xs text-indigo-100 font-medium" />
+                            )}
+                        </div>
                         {newsArticle.sourceUrl && (
                              <a 
                                 href={newsArticle.sourceUrl} 
@@ -74,11 +112,17 @@ export const DailySelection: React.FC<Props> = ({ articles, onSelect, language }
                  <div className="flex items-center gap-2 mb-3 text-slate-400 text-xs font-mono uppercase">
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
                     Topic {idx + 1}
+                    {article.level && (
+                        <span className="ml-auto px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700 font-bold" title="Target level">{article.level}</span>
+                    )}
                 </div>
                 <h3 className="text-lg font-bold text-slate-800 mb-2 group-hover:text-indigo-700 line-clamp-2">
                     {article.title}
                 </h3>
-                <div className="mt-auto pt-4 flex justify-end">
+                <div className="mt-auto pt-4 flex items-center justify-between">
+                    {article.difficulty ? (
+                        <DifficultyInfo difficulty={article.difficulty} className="text-xs text-slate-400 font-medium" />
+                    ) : <span />}
                     <span className="text-indigo-600 text-sm font-medium group-hover:translate-x-1 transition-transform flex items-center gap-1">
                         Start Lesson
                         <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { VocabularyItem, Language } from '../types';
+import {
+  parseWordList,
+  guessColumnMapping,
+  buildImportPreview,
+  createImportedItems,
+  IMPORT_FIELDS,
+  ImportColumnMapping,
+  ImportField,
+  ParsedWordList
+} from '../services/dictionaryImportService';
+
+interface Props {
+  fileName: string;
+  fileText: string;
+  vocabulary: VocabularyItem[];
+  defaultLanguage: Language | null;
+  onImport: (items: VocabularyItem[], enrich: boolean) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+export const DictionaryImportModal: React.FC<Props> = ({ fileName, fileText, vocabulary, defaultLanguage, onImport, onClose }) => {
+  const [hasHeader, setHasHeader] = useState<boolean | undefined>(undefined);
+  const [language, setLanguage] = useState<Language>(defaultLanguage || Language.ENGLISH);
+  const [enrich, setEnrich] = useState(true);
+
+  // Parse once per header toggle; errors are shown instead of the preview
+  const { parsed, error } = useMemo<{ parsed: ParsedWordList | null; error: string | null }>(() => {
+    try {
+      return { parsed: parseWordList(fileName, fileText, hasHeader), error: null };
+    } catch (e: any) {
+      return { parsed: null, error: e?.message || 'Could not read file' };
+    }
+  }, [fileName, fileText, hasHeader]);
+
+  const [mapping, setMapping] = useState<ImportColumnMapping>(() => parsed ? guessColumnMapping(parsed) : {});
+
+  const preview = useMemo(
+    () => parsed ? buildImportPreview(parsed, mapping, vocabulary, language) : [],
+    [parsed, mapping, vocabulary, language]
+  );
+
+  const newRows = preview.filter(r => !r.duplicateOf);
+  const duplicateCount = preview.length - newRows.length;
+  const enrichCount = newRows.filter(r => r.needsEnrichment).length;
+  const canMapColumns = parsed && parsed.format !== 'txt';
+
+  const handleHeaderToggle = (checked: boolean) => {
+    setHasHeader(checked);
+    try {
+      setMapping(guessColumnMapping(parseWordList(fileName, fileText, checked)));
+    } catch {
+      setMapping({});
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = parseInt(value, 10);
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    onImport(createImportedItems(preview, language), enrich && enrichCount > 0);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col animate-scale-in overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-indigo-50">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Import Word List</h2>
+            <p className="text-xs text-slate-500 font-mono mt-1">
+              {fileName}{parsed && ` · ${parsed.format.toUpperCase()} · ${parsed.rows.length} rows`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="bg-rose-50 text-rose-700 text-sm p-4 rounded-lg border border-rose-100">
+              {error}
+            </div>
+          )}
+
+          {/* Target Deck */}
+          <div>
+            <label className="block text-xs font-bold text-slate-600 uppercase mb-2">Language Deck</label>
+            <select
+              value={language}
+              onChange={e => setLanguage(e.target.value as Language)}
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {Object.values(Language).map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </div>
+
+          {/* Column Mapping */}
+          {canMapColumns && parsed && (
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <label className="block text-xs font-bold text-slate-600 uppercase">Column Mapping</label>
+                {parsed.format !== 'json' && (
+                  <label className="flex items-center gap-2 text-xs text-slate-500">
+                    <input type="checkbox" checked={parsed.hasHeader} onChange={e => handleHeaderToggle(e.target.checked)} />
+                    First row is a header
+                  </label>
+                )}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {IMPORT_FIELDS.map(({ field, label }) => (
+                  <div key={field}>
+                    <div className="text-[10px] font-bold text-slate-400 uppercase mb-1">{label}</div>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={e => handleMappingChange(field, e.target.value)}
+                      className="w-full px-2 py-1.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                    >
+                      <option value="">—</option>
+                      {parsed.columns.map((col, i) => (
+                        <option key={i} value={i}>{col}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {parsed && (
+            <div>
+              <div className="flex items-center gap-3 text-xs mb-2">
+                <span className="font-bold text-slate-600 uppercase">Preview</span>
+                <span className="text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded">{newRows.length} new</span>
+                {duplicateCount > 0 && (
+                  <span className="text-orange-600 bg-orange-50 px-2 py-0.5 rounded">{duplicateCount} duplicates skipped</span>
+                )}
+              </div>
+              <div className="border border-slate-100 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-xs text-slate-400 uppercase">
+                    <tr>
+                      <th className="text-left p-2">Word</th>
+                      <th className="text-left p-2">Definition</th>
+                      <th className="text-left p-2 w-28">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.slice(0, PREVIEW_LIMIT).map((row, i) => (
+                      <tr key={i} className={`border-t border-slate-100 ${row.duplicateOf ? 'opacity-50' : ''}`}>
+                        <td className="p-2 font-medium text-slate-800">{row.definition.word}</td>
+                        <td className="p-2 text-slate-500 truncate max-w-xs">
+                          {row.definition.definitionEN || row.definition.definitionCN || <span className="italic text-slate-300">No definition</span>}
+                        </td>
+                        <td className="p-2 text-xs">
+                          {row.duplicateOf === 'vocabulary' && <span className="text-orange-600">Already saved</span>}
+                          {row.duplicateOf === 'file' && <span className="text-orange-600">Repeated</span>}
+                          {!row.duplicateOf && (row.needsEnrichment
+                            ? <span className="text-indigo-500">Needs AI</span>
+                            : <span className="text-emerald-600">Ready</span>)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {preview.length > PREVIEW_LIMIT && (
+                  <div className="text-xs text-slate-400 p-2 text-center bg-slate-50">
+                    …and {preview.length - PREVIEW_LIMIT} more
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {enrichCount > 0 && (
+            <label className="flex items-start gap-2 text-sm text-slate-600">
+              <input type="checkbox" className="mt-1" checked={enrich} onChange={e => setEnrich(e.target.checked)} />
+              <span>
+                Fill in {enrichCount} words without definitions using AI in the background
+                <span className="text-slate-400"> (analyzed as {language})</span>
+              </span>
+            </label>
+          )}
+
+          <button
+            onClick={handleImport}
+            disabled={newRows.length === 0}
+            className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {newRows.length} Words
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
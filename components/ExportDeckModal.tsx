@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { VocabularyItem, Language } from '../types';
+import { exportVocabularyDeck, DeckExportFormat } from '../services/ankiExportService';
+import { downloadBlob, fileDateStamp } from '../services/fileService';
+
+interface Props {
+  vocabulary: VocabularyItem[];
+  language: Language | null;
+  onClose: () => void;
+}
+
+const FORMATS: { format: DeckExportFormat; label: string; hint: string }[] = [
+  { format: 'apkg', label: 'Anki Deck', hint: '.apkg with audio' },
+  { format: 'csv', label: 'CSV', hint: 'Excel / Sheets' },
+  { format: 'tsv', label: 'TSV', hint: 'Tab separated' }
+];
+
+export const ExportDeckModal: React.FC<Props> = ({ vocabulary, language, onClose }) => {
+  const [format, setFormat] = useState<DeckExportFormat>('apkg');
+  // Anki uses "::" for sub-decks, so each language lands under one parent deck
+  const [deckName, setDeckName] = useState(language ? `LinguistDaily::${language}` : 'LinguistDaily');
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const audioCount = vocabulary.filter(v => v.audioBase64).length;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const name = deckName.trim() || 'LinguistDaily';
+      const blob = await exportVocabularyDeck(vocabulary, format, { deckName: name, includeAudio });
+      const safeName = name.replace(/[^\p{L}\p{N}_-]+/gu, '_');
+      downloadBlob(blob, `${safeName}-${fileDateStamp()}.${format}`);
+      onClose();
+    } catch (e: any) {
+      console.error("Vocabulary export failed", e);
+      setError(e?.message || 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full animate-scale-in overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-indigo-50">
+          <h2 className="text-xl font-bold text-slate-800">Export Vocabulary</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-slate-500">
+            {vocabulary.length} {language ? `${language} ` : ''}words · {audioCount} with pronunciation audio
+          </p>
+
+          <div className="grid grid-cols-3 gap-3">
+            {FORMATS.map(f => (
+              <button
+                key={f.format}
+                onClick={() => setFormat(f.format)}
+                className={`py-2 px-3 rounded-lg text-sm font-medium border transition-all flex flex-col items-center
+                  ${format === f.format
+                    ? 'bg-indigo-600 text-white border-indigo-600'
+                    : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'
+                  }
+                `}
+              >
+                {f.label}
+                <span className="text-[10px] opacity-70 font-normal">{f.hint}</span>
+              </button>
+            ))}
+          </div>
+
+          {format === 'apkg' && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-xs font-bold text-slate-600 uppercase mb-1">Deck Name</label>
+                <input
+                  type="text"
+                  value={deckName}
+                  onChange={e => setDeckName(e.target.value)}
+                  className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input type="checkbox" checked={includeAudio} onChange={e => setIncludeAudio(e.target.checked)} />
+                Embed pronunciation audio
+              </label>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-rose-50 text-rose-700 text-sm p-3 rounded-lg border border-rose-100">{error}</div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting || vocabulary.length === 0}
+            className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting ? 'Exporting...' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
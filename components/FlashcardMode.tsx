@@ -1,14 +1,22 @@
 
 import React, { useState } from 'react';
-import { VocabularyItem } from '../types';
+import { VocabularyItem, ReviewGrade } from '../types';
+import { previewIntervals, formatInterval } from '../services/srsService';
 
 interface Props {
   items: VocabularyItem[];
   onClose: () => void;
-  onResult: (id: string, success: boolean) => void;
+  onResult: (id: string, grade: ReviewGrade) => void;
   onPlayAudio: (base64: string, encoding?: 'pcm' | 'mp3') => void;
 }
 
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-rose-100 text-rose-600 hover:bg-rose-200' },
+  { grade: 'hard', label: 'Hard', className: 'bg-amber-100 text-amber-700 hover:bg-amber-200' },
+  { grade: 'good', label: 'Good', className: 'bg-emerald-100 text-emerald-600 hover:bg-emerald-200' },
+  { grade: 'easy', label: 'Easy', className: 'bg-sky-100 text-sky-600 hover:bg-sky-200' }
+];
+
 export const FlashcardMode: React.FC<Props> = ({ items, onClose, onResult, onPlayAudio }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
@@ -18,9 +26,10 @@ export const FlashcardMode: React.FC<Props> = ({ items, onClose, onResult, onPla
   if (!items || items.length === 0) return null;
 
   const currentItem = items[currentIndex];
+  const intervals = previewIntervals(currentItem);
 
-  const handleNext = (success: boolean) => {
-    onResult(currentItem.id, success);
+  const handleNext = (grade: ReviewGrade) => {
+    onResult(currentItem.id, grade);
     if (currentIndex < items.length - 1) {
       setIsFlipped(false);
       // Small delay to allow flip reset if needed, but usually better to just swap content
@@ -129,21 +138,17 @@ export const FlashcardMode: React.FC<Props> = ({ items, onClose, onResult, onPla
         </div>
 
         {/* Controls */}
-        <div className={`flex gap-4 mt-8 w-full max-w-md transition-all duration-500 ${isFlipped ? 'opacity-100 translate-y-0' : 'opacity-50 translate-y-4 pointer-events-none'}`}>
-             <button 
-                onClick={(e) => { e.stopPropagation(); handleNext(false); }}
-                className="flex-1 bg-rose-100 text-rose-600 py-4 rounded-xl font-bold hover:bg-rose-200 active:scale-95 transition-all shadow-sm flex flex-col items-center"
-             >
-                <span className="text-lg">Needs Review</span>
-                <span className="text-[10px] opacity-70 font-normal uppercase tracking-wide">Reset Stage</span>
-             </button>
-             <button 
-                onClick={(e) => { e.stopPropagation(); handleNext(true); }}
-                className="flex-1 bg-emerald-100 text-emerald-600 py-4 rounded-xl font-bold hover:bg-emerald-200 active:scale-95 transition-all shadow-sm flex flex-col items-center"
-             >
-                <span className="text-lg">I Know This</span>
-                <span className="text-[10px] opacity-70 font-normal uppercase tracking-wide">Next Interval</span>
-             </button>
+        <div className={`flex gap-2 sm:gap-3 mt-8 w-full max-w-md transition-all duration-500 ${isFlipped ? 'opacity-100 translate-y-0' : 'opacity-50 translate-y-4 pointer-events-none'}`}>
+             {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                <button 
+                    key={grade}
+                    onClick={(e) => { e.stopPropagation(); handleNext(grade); }}
+                    className={`flex-1 py-4 rounded-xl font-bold active:scale-95 transition-all shadow-sm flex flex-col items-center ${className}`}
+                >
+                    <span className="text-lg">{label}</span>
+                    <span className="text-[10px] opacity-70 font-normal uppercase tracking-wide">{formatInterval(intervals[grade])}</span>
+                </button>
+             ))}
         </div>
     </div>
   );
@@ -0,0 +1,70 @@
+import React from 'react';
+import { GrammarPoint, Language } from '../types';
+import { grammarKey } from '../services/grammarService';
+
+interface Props {
+  sentence: string;
+  language: Language;
+  points: GrammarPoint[];
+  savedKeys: Set<string>; // grammarKey of every note already in the notebook
+  onSave: (point: GrammarPoint) => void;
+  onClose: () => void;
+}
+
+export const GrammarModal: React.FC<Props> = ({ sentence, language, points, savedKeys, onSave, onClose }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+    <div
+      className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto animate-scale-in"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="p-6 border-b border-slate-100 flex justify-between items-start gap-4 sticky top-0 bg-white z-10">
+        <div>
+          <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Grammar</h2>
+          <p className="text-lg text-slate-800 leading-relaxed">{sentence}</p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {points.length === 0 && (
+          <p className="text-sm text-slate-500 italic">No grammar points were found in this sentence.</p>
+        )}
+        {points.map((point, i) => {
+          const isSaved = savedKeys.has(grammarKey(point.pattern, language));
+          return (
+            <div key={i} className="space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <h3 className="text-xl font-bold text-indigo-700">{point.pattern}</h3>
+                {point.level && (
+                  <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700 whitespace-nowrap" title="Usually taught at">
+                    {point.level}
+                  </span>
+                )}
+              </div>
+              <p className="text-slate-800 leading-relaxed">{point.explanation}</p>
+              {point.examples.length > 0 && (
+                <ul className="space-y-2">
+                  {point.examples.map((example, j) => (
+                    <li key={j} className="text-slate-700 bg-slate-50 p-3 rounded border border-slate-100">{example}</li>
+                  ))}
+                </ul>
+              )}
+              <button
+                onClick={() => onSave(point)}
+                disabled={isSaved}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${isSaved
+                  ? 'bg-emerald-50 text-emerald-700 cursor-default'
+                  : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}
+              >
+                {isSaved ? 'In Grammar Notebook' : 'Save to Grammar Notebook'}
+              </button>
+              {i < points.length - 1 && <hr className="border-slate-100 !mt-6" />}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { GrammarNote, Language, ReviewGrade } from '../types';
+import { previewIntervals, formatInterval } from '../services/srsService';
+import { isDue } from '../services/grammarService';
+
+interface Props {
+  notes: GrammarNote[]; // The current language's notebook
+  language: Language | null;
+  onReview: (id: string, grade: ReviewGrade) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-rose-100 text-rose-600 hover:bg-rose-200' },
+  { grade: 'hard', label: 'Hard', className: 'bg-amber-100 text-amber-700 hover:bg-amber-200' },
+  { grade: 'good', label: 'Good', className: 'bg-emerald-100 text-emerald-600 hover:bg-emerald-200' },
+  { grade: 'easy', label: 'Easy', className: 'bg-sky-100 text-sky-600 hover:bg-sky-200' }
+];
+
+export const GrammarNotebook: React.FC<Props> = ({ notes, language, onReview, onDelete, onClose }) => {
+  // Review works on a snapshot so graded notes do not reshuffle the session
+  const [session, setSession] = useState<GrammarNote[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+
+  const due = notes.filter(n => isDue(n));
+  const sorted = [...notes].sort((a, b) => a.nextReviewAt - b.nextReviewAt);
+
+  const startReview = () => {
+    setSession(due.length > 0 ? due : sorted);
+    setIndex(0);
+    setRevealed(false);
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!session) return;
+    onReview(session[index].id, grade);
+    setRevealed(false);
+    setIndex(index + 1);
+  };
+
+  const current = session?.[index];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto animate-scale-in"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center sticky top-0 bg-white z-10">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900">Grammar Notebook</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              {language ? `${language} · ` : ''}{notes.length} point{notes.length === 1 ? '' : 's'}{due.length > 0 ? ` · ${due.length} due` : ''}
+            </p>
+          </div>
+          <button onClick={session ? () => setSession(null) : onClose} className="text-slate-400 hover:text-slate-600" title={session ? 'Back to notebook' : 'Close'}>
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {/* Review */}
+        {session && (
+          <div className="p-6">
+            {current ? (
+              <div className="space-y-5">
+                <div className="text-xs font-mono text-slate-400">Point {index + 1} of {session.length}</div>
+                <div>
+                  <h3 className="text-2xl font-bold text-indigo-700 mb-3">{current.pattern}</h3>
+                  <p className="text-slate-500 text-sm mb-1">Seen in:</p>
+                  <p className="text-slate-800 leading-relaxed bg-slate-50 p-3 rounded border border-slate-100">{current.sentence}</p>
+                </div>
+
+                {revealed ? (
+                  <>
+                    <p className="text-slate-800 leading-relaxed">{current.explanation}</p>
+                    {current.examples.length > 0 && (
+                      <ul className="space-y-2">
+                        {current.examples.map((example, i) => (
+                          <li key={i} className="text-slate-700 text-sm bg-indigo-50 p-3 rounded">{example}</li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className="flex gap-2">
+                      {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                        <button
+                          key={grade}
+                          onClick={() => handleGrade(grade)}
+                          className={`flex-1 py-3 rounded-xl font-bold active:scale-95 transition-all flex flex-col items-center ${className}`}
+                        >
+                          <span>{label}</span>
+                          <span className="text-[10px] opacity-70 font-normal uppercase tracking-wide">{formatInterval(previewIntervals(current)[grade])}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => setRevealed(true)}
+                    className="w-full py-3 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-700 transition-colors"
+                  >
+                    Can you explain it? Show Explanation
+                  </button>
+                )}
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <div className="text-5xl mb-4">🎉</div>
+                <p className="text-slate-600 mb-6">You've reviewed {session.length} grammar point{session.length === 1 ? '' : 's'}.</p>
+                <button onClick={() => setSession(null)} className="px-6 py-3 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-700 transition-colors">
+                  Back to Notebook
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* List */}
+        {!session && (
+          <div className="p-6 space-y-4">
+            {notes.length === 0 ? (
+              <p className="text-sm text-slate-500 italic text-center py-6">
+                Hover a sentence while reading and use "Explain grammar" to collect grammar points here.
+              </p>
+            ) : (
+              <>
+                <button
+                  onClick={startReview}
+                  className={`w-full py-3 px-4 rounded-xl font-bold shadow-sm transition-all ${due.length > 0
+                    ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                    : 'bg-white text-slate-600 border border-slate-200 hover:border-indigo-300 hover:text-indigo-600'}`}
+                >
+                  {due.length > 0 ? `Review ${due.length} Grammar Point${due.length === 1 ? '' : 's'}` : 'Practice All'}
+                </button>
+                {sorted.map(note => (
+                  <div key={note.id} className="p-4 rounded-lg border border-slate-100 shadow-sm group">
+                    <div className="flex items-start justify-between gap-3 mb-1">
+                      <span className="font-bold text-slate-800">{note.pattern}</span>
+                      <div className="flex items-center gap-2">
+                        {note.level && <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700">{note.level}</span>}
+                        <span className={`w-2 h-2 rounded-full ${isDue(note) ? 'bg-red-500' : 'bg-green-400'}`} title={isDue(note) ? 'Review Now' : 'On Track'}></span>
+                        <button
+                          onClick={() => onDelete(note.id)}
+                          className="text-slate-300 hover:text-rose-600 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity"
+                          title="Remove from notebook"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                        </button>
+                      </div>
+                    </div>
+                    <p className="text-sm text-slate-600 line-clamp-2">{note.explanation}</p>
+                    <p className="text-xs text-slate-400 italic mt-2 truncate">{note.sentence}</p>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
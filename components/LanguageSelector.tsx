@@ -1,68 +1,130 @@
 import React from 'react';
-import { Language } from '../types';
+import { Language, LearnerProfile } from '../types';
+import { isActiveLanguage, levelFor } from '../services/profileService';
 
 interface Props {
   onSelect: (lang: Language) => void;
   loadingStates: Record<Language, { loading: boolean; ready: boolean }>;
+  dueCounts: Partial<Record<Language, number>>;
+  onRegenerate: (lang: Language) => void;
+  profile: LearnerProfile;
+  onEditProfile: () => void;
 }
 
 const languages = Object.values(Language);
 
-export const LanguageSelector: React.FC<Props> = ({ onSelect, loadingStates }) => {
+export const LanguageSelector: React.FC<Props> = ({ onSelect, loadingStates, dueCounts, onRegenerate, profile, onEditProfile }) => {
+  const active = profile.studyLanguages.map(s => s.language);
+  const others = languages.filter(l => !active.includes(l));
+
+  const renderCard = (lang: Language) => {
+    const isActive = isActiveLanguage(profile, lang);
+    // Inactive languages are not preloaded; we only wait on them while they load
+    const status = loadingStates[lang] || { loading: isActive, ready: false };
+    const isReady = status.ready;
+    const isLoading = status.loading;
+    const isSelectable = isReady || (!isActive && !isLoading);
+    const due = dueCounts[lang] || 0;
+
+    return (
+      <div key={lang} className="relative group/card">
+        <button
+          onClick={() => isSelectable && onSelect(lang)}
+          disabled={!isSelectable}
+          className={`relative w-full p-6 border rounded-xl shadow-sm transition-all duration-200 flex flex-col items-center gap-3 group overflow-hidden
+            ${isSelectable
+              ? 'bg-white border-slate-200 hover:shadow-md hover:border-indigo-500 hover:bg-indigo-50 cursor-pointer'
+              : 'bg-slate-50 border-slate-100 opacity-70 cursor-not-allowed'
+            }
+          `}
+        >
+          {due > 0 && (
+            <span
+              className="absolute top-2 right-2 z-20 min-w-[1.5rem] h-6 px-1.5 rounded-full bg-rose-500 text-white text-xs font-bold flex items-center justify-center shadow-sm"
+              title={`${due} words due for review`}
+            >
+              {due}
+            </span>
+          )}
+
+          {isActive && (
+            <span className="absolute top-2 left-2 z-20 text-[10px] font-bold px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700" title="Target level">
+              {levelFor(profile, lang)}
+            </span>
+          )}
+
+          {isLoading && (
+            <div className="absolute inset-0 bg-white/50 flex items-center justify-center z-10">
+               <div className="w-5 h-5 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          <span className={`text-3xl transition-all duration-300 ${isReady ? 'grayscale group-hover:grayscale-0' : 'grayscale'}`}>
+             {lang === Language.JAPANESE && '🇯🇵'}
+             {lang === Language.KOREAN && '🇰🇷'}
+             {lang === Language.FRENCH && '🇫🇷'}
+             {lang === Language.ITALIAN && '🇮🇹'}
+             {lang === Language.DUTCH && '🇳🇱'}
+             {lang === Language.ENGLISH && '🇬🇧'}
+             {lang === Language.CANTONESE && '🇭🇰'}
+             {lang === Language.SPANISH && '🇪🇸'}
+          </span>
+          <span className={`font-medium ${isSelectable ? 'text-slate-700 group-hover:text-indigo-600' : 'text-slate-400'}`}>
+            {lang}
+          </span>
+
+          {/* Status Text */}
+          <span className="text-[10px] uppercase tracking-wider font-bold text-slate-400">
+              {isLoading ? 'Preloading...' : isReady ? 'Ready' : isActive ? 'Pending' : 'On demand'}
+          </span>
+        </button>
+
+        {/* Today's selection is cached; this replaces it with a fresh one */}
+        {!isLoading && (isReady || isActive) && (
+          <button
+            onClick={() => onRegenerate(lang)}
+            className="absolute bottom-2 right-2 z-20 p-1.5 rounded-lg text-slate-300 hover:text-indigo-600 hover:bg-white opacity-100 md:opacity-0 md:group-hover/card:opacity-100 transition-opacity"
+            title={isReady ? `Regenerate today's ${lang} content` : `Retry ${lang}`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+          </button>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="flex flex-col items-center justify-center min-h-[60vh] animate-fade-in">
       <h1 className="text-4xl font-bold text-slate-800 mb-8 text-center">
         Choose Your Journey
       </h1>
-      <p className="text-slate-500 mb-12 text-center max-w-md">
-        We are curating daily news and lessons for you. Please wait for your language to be ready.
+      <p className="text-slate-500 mb-4 text-center max-w-md">
+        {active.length > 0
+          ? 'We are curating daily news and lessons for your study languages. Other languages load when you open them.'
+          : 'Pick the languages you study to have daily content prepared in the background, or open any language below.'}
       </p>
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 max-w-4xl w-full px-4">
-        {languages.map((lang) => {
-          const status = loadingStates[lang] || { loading: true, ready: false };
-          const isReady = status.ready;
-          const isLoading = status.loading;
+      <button onClick={onEditProfile} className="text-sm font-medium text-indigo-600 hover:text-indigo-800 mb-10">
+        {active.length > 0 ? 'Edit study languages' : 'Choose study languages'}
+      </button>
 
-          return (
-            <button
-              key={lang}
-              onClick={() => isReady && onSelect(lang)}
-              disabled={!isReady}
-              className={`relative p-6 border rounded-xl shadow-sm transition-all duration-200 flex flex-col items-center gap-3 group overflow-hidden
-                ${isReady 
-                  ? 'bg-white border-slate-200 hover:shadow-md hover:border-indigo-500 hover:bg-indigo-50 cursor-pointer' 
-                  : 'bg-slate-50 border-slate-100 opacity-70 cursor-not-allowed'
-                }
-              `}
-            >
-              {isLoading && (
-                <div className="absolute inset-0 bg-white/50 flex items-center justify-center z-10">
-                   <div className="w-5 h-5 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
-                </div>
-              )}
-              
-              <span className={`text-3xl transition-all duration-300 ${isReady ? 'grayscale group-hover:grayscale-0' : 'grayscale'}`}>
-                 {lang === Language.JAPANESE && '🇯🇵'}
-                 {lang === Language.KOREAN && '🇰🇷'}
-                 {lang === Language.FRENCH && '🇫🇷'}
-                 {lang === Language.ITALIAN && '🇮🇹'}
-                 {lang === Language.DUTCH && '🇳🇱'}
-                 {lang === Language.ENGLISH && '🇬🇧'}
-                 {lang === Language.CANTONESE && '🇭🇰'}
-                 {lang === Language.SPANISH && '🇪🇸'}
-              </span>
-              <span className={`font-medium ${isReady ? 'text-slate-700 group-hover:text-indigo-600' : 'text-slate-400'}`}>
-                {lang}
-              </span>
-              
-              {/* Status Text */}
-              <span className="text-[10px] uppercase tracking-wider font-bold text-slate-400">
-                  {isLoading ? 'Preloading...' : isReady ? 'Ready' : 'Pending'}
-              </span>
-            </button>
-          );
-        })}
-      </div>
+      {active.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 max-w-4xl w-full px-4">
+          {active.map(renderCard)}
+        </div>
+      )}
+
+      {others.length > 0 && (
+        <>
+          {active.length > 0 && (
+            <div className="max-w-4xl w-full px-4 mt-10 mb-4 text-xs font-bold text-slate-400 uppercase tracking-wider">
+              Other Languages
+            </div>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 max-w-4xl w-full px-4">
+            {others.map(renderCard)}
+          </div>
+        </>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
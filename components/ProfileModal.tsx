@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { CefrLevel, Language, LearnerProfile, StudyLanguage } from '../types';
+import { CEFR_LEVELS, DEFAULT_LEVEL } from '../services/profileService';
+
+interface Props {
+  profile: LearnerProfile;
+  onSave: (profile: LearnerProfile) => void;
+  onClose: () => void;
+}
+
+export const ProfileModal: React.FC<Props> = ({ profile, onSave, onClose }) => {
+  const [studyLanguages, setStudyLanguages] = useState<StudyLanguage[]>(profile.studyLanguages);
+
+  const inactive = Object.values(Language).filter(l => !studyLanguages.some(s => s.language === l));
+
+  const setLevel = (language: Language, level: CefrLevel) => {
+    setStudyLanguages(prev => prev.map(s => s.language === language ? { ...s, level } : s));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= studyLanguages.length) return;
+    const next = [...studyLanguages];
+    [next[index], next[target]] = [next[target], next[index]];
+    setStudyLanguages(next);
+  };
+
+  const handleSave = () => {
+    onSave({ studyLanguages });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full animate-scale-in overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-indigo-50">
+          <h2 className="text-xl font-bold text-slate-800">Study Languages</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <p className="text-sm text-slate-500">
+            Daily content is prepared in the background for these languages only. Others load when you open them.
+          </p>
+
+          {/* Active */}
+          <div className="space-y-2">
+            {studyLanguages.length === 0 && (
+              <p className="text-sm text-slate-400 italic">No study languages yet. Add one below.</p>
+            )}
+            {studyLanguages.map((s, index) => (
+              <div key={s.language} className="flex items-center gap-2 p-3 border border-slate-200 rounded-lg">
+                <span className="flex-1 text-sm font-medium text-slate-800">{s.language}</span>
+                <select
+                  value={s.level}
+                  onChange={e => setLevel(s.language, e.target.value as CefrLevel)}
+                  className="px-2 py-1 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                  title="Target level"
+                >
+                  {CEFR_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                </select>
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Move up">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" /></svg>
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === studyLanguages.length - 1} className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Move down">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+                </button>
+                <button
+                  onClick={() => setStudyLanguages(prev => prev.filter(x => x.language !== s.language))}
+                  className="p-1 text-slate-400 hover:text-rose-600"
+                  title="Stop studying"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Inactive */}
+          {inactive.length > 0 && (
+            <div>
+              <label className="block text-xs font-bold text-slate-600 uppercase mb-2">Add Language</label>
+              <div className="flex flex-wrap gap-2">
+                {inactive.map(language => (
+                  <button
+                    key={language}
+                    onClick={() => setStudyLanguages(prev => [...prev, { language, level: DEFAULT_LEVEL }])}
+                    className="py-1.5 px-3 rounded-lg text-sm font-medium border bg-white text-slate-600 border-slate-200 hover:border-indigo-300 transition-all"
+                  >
+                    + {language}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={handleSave}
+            className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold hover:bg-indigo-700 transition-colors shadow-sm"
+          >
+            Save Profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
-
 import React, { useState } from 'react';
-import { ApiSettings, ApiProvider } from '../types';
+import { ApiSettings, ApiProvider, FallbackErrorClass } from '../types';
+import { BUILT_IN_PROVIDER_IDS, PROVIDER_PRESETS, createProvider } from '../services/providerService';
 
 interface Props {
   settings: ApiSettings;
@@ -8,14 +8,64 @@ interface Props {
   onClose: () => void;
 }
 
+const FALLBACK_RULES: { errorClass: FallbackErrorClass; label: string; hint: string }[] = [
+  { errorClass: 'quota', label: 'Quota / rate limit', hint: '429, resource exhausted' },
+  { errorClass: 'network', label: 'Network / server error', hint: 'Offline, timeouts, 5xx' },
+  { errorClass: 'malformed', label: 'Malformed JSON', hint: 'Response could not be parsed' }
+];
+
+const inputClass = "w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none";
+
 export const SettingsModal: React.FC<Props> = ({ settings, onSave, onClose }) => {
+  const [providers, setProviders] = useState<ApiProvider[]>(settings.providers);
   const [keys, setKeys] = useState(settings.keys);
-  const [backup, setBackup] = useState<ApiProvider>(settings.backup);
+  const [fallbackOn, setFallbackOn] = useState(settings.fallbackOn);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateProvider = (id: string, patch: Partial<ApiProvider>) => {
+    setProviders(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+  };
+
+  const moveProvider = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= providers.length) return;
+    const next = [...providers];
+    [next[index], next[target]] = [next[target], next[index]];
+    setProviders(next);
+  };
+
+  const addProvider = (preset: Omit<ApiProvider, 'id'>) => {
+    const provider = createProvider(preset);
+    setProviders(prev => [...prev, provider]);
+    setExpandedId(provider.id);
+  };
+
+  const removeProvider = (id: string) => {
+    setProviders(prev => prev.filter(p => p.id !== id));
+    setKeys(prev => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { [id]: removed, ...rest } = prev;
+      return rest;
+    });
+  };
 
   const handleSave = () => {
+    const enabled = providers.filter(p => p.enabled);
+    if (enabled.length === 0) {
+      setError('Enable at least one provider.');
+      return;
+    }
+    const incomplete = enabled.find(p => !p.model.trim() || (p.kind === 'openai-compatible' && !p.baseUrl?.trim()));
+    if (incomplete) {
+      setError(`${incomplete.name} needs a model${incomplete.kind === 'openai-compatible' ? ' and base URL' : ''}.`);
+      setExpandedId(incomplete.id);
+      return;
+    }
+
     onSave({
-        primary: 'gemini',
-        backup,
+        providers: providers.map(p => ({ ...p, name: p.name.trim() || 'Untitled', model: p.model.trim(), baseUrl: p.baseUrl?.trim() })),
+        fallbackOn,
         keys
     });
     onClose();
@@ -23,7 +73,7 @@ export const SettingsModal: React.FC<Props> = ({ settings, onSave, onClose }) =>
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
-      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full animate-scale-in overflow-hidden">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full animate-scale-in overflow-hidden max-h-[90vh] flex flex-col">
         <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-indigo-50">
           <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
             <svg className="w-5 h-5 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
@@ -33,68 +83,126 @@ export const SettingsModal: React.FC<Props> = ({ settings, onSave, onClose }) =>
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
           </button>
         </div>
-        
-        <div className="p-6 space-y-6">
+
+        <div className="p-6 space-y-6 overflow-y-auto">
             <p className="text-sm text-slate-500">
-                Configure your AI providers. Gemini is used by default. If Gemini quota is exceeded, the system will fall back to your selected backup.
+                Providers are tried from top to bottom. Add any OpenAI-compatible server, such as Ollama or LM Studio running locally.
             </p>
 
-            {/* API Keys */}
-            <div className="space-y-4">
-                <div>
-                    <label className="block text-xs font-bold text-slate-600 uppercase mb-1">Gemini API Key (Primary)</label>
-                    <input 
-                        type="password" 
-                        value={keys.gemini || ''}
-                        onChange={e => setKeys({...keys, gemini: e.target.value})}
-                        placeholder="Fetched from env if empty"
-                        className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
-                    />
-                </div>
-                <div>
-                    <label className="block text-xs font-bold text-slate-600 uppercase mb-1">OpenAI API Key</label>
-                    <input 
-                        type="password" 
-                        value={keys.openai || ''}
-                        onChange={e => setKeys({...keys, openai: e.target.value})}
-                        className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
-                    />
-                </div>
-                <div>
-                    <label className="block text-xs font-bold text-slate-600 uppercase mb-1">DeepSeek API Key</label>
-                    <input 
-                        type="password" 
-                        value={keys.deepseek || ''}
-                        onChange={e => setKeys({...keys, deepseek: e.target.value})}
-                        className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
-                    />
-                </div>
-            </div>
+            {/* Provider Chain */}
+            <div className="space-y-2">
+                {providers.map((p, index) => {
+                    const isExpanded = expandedId === p.id;
+                    const isBuiltIn = BUILT_IN_PROVIDER_IDS.includes(p.id);
+                    return (
+                        <div key={p.id} className={`border rounded-lg ${p.enabled ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+                            <div className="flex items-center gap-2 p-3">
+                                <input
+                                    type="checkbox"
+                                    checked={p.enabled}
+                                    onChange={e => updateProvider(p.id, { enabled: e.target.checked })}
+                                    title="Enabled"
+                                />
+                                <span className="text-xs font-bold text-slate-400 w-4">{index + 1}</span>
+                                <button onClick={() => setExpandedId(isExpanded ? null : p.id)} className="flex-1 text-left min-w-0">
+                                    <div className="text-sm font-medium text-slate-800 truncate">{p.name}</div>
+                                    <div className="text-xs text-slate-400 truncate">
+                                        {p.model || 'No model'}{p.kind === 'openai-compatible' && p.baseUrl ? ` · ${p.baseUrl}` : ''}
+                                    </div>
+                                </button>
+                                <button onClick={() => moveProvider(index, -1)} disabled={index === 0} className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Move up">
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" /></svg>
+                                </button>
+                                <button onClick={() => moveProvider(index, 1)} disabled={index === providers.length - 1} className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Move down">
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+                                </button>
+                            </div>
 
-            <hr className="border-slate-100" />
+                            {isExpanded && (
+                                <div className="px-3 pb-3 space-y-3 border-t border-slate-100 pt-3">
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-600 uppercase mb-1">Name</label>
+                                        <input type="text" value={p.name} onChange={e => updateProvider(p.id, { name: e.target.value })} className={inputClass} />
+                                    </div>
+                                    {p.kind === 'openai-compatible' && (
+                                        <div>
+                                            <label className="block text-xs font-bold text-slate-600 uppercase mb-1">Base URL</label>
+                                            <input type="url" value={p.baseUrl || ''} onChange={e => updateProvider(p.id, { baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClass} />
+                                        </div>
+                                    )}
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <label className="block text-xs font-bold text-slate-600 uppercase mb-1">Model</label>
+                                            <input type="text" value={p.model} onChange={e => updateProvider(p.id, { model: e.target.value })} className={inputClass} />
+                                        </div>
+                                        <div>
+                                            <label className="block text-xs font-bold text-slate-600 uppercase mb-1">Speech Model</label>
+                                            <input type="text" value={p.ttsModel || ''} onChange={e => updateProvider(p.id, { ttsModel: e.target.value })} placeholder="None" className={inputClass} />
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-600 uppercase mb-1">API Key</label>
+                                        <input
+                                            type="password"
+                                            value={keys[p.id] || ''}
+                                            onChange={e => setKeys({ ...keys, [p.id]: e.target.value })}
+                                            placeholder={isBuiltIn ? 'Fetched from env if empty' : 'Optional for local servers'}
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                    {!isBuiltIn && (
+                                        <button onClick={() => removeProvider(p.id)} className="text-xs font-medium text-rose-600 hover:text-rose-700">
+                                            Remove provider
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
 
-            {/* Fallback Selection */}
             <div>
-                <label className="block text-xs font-bold text-slate-600 uppercase mb-2">Backup Provider</label>
+                <label className="block text-xs font-bold text-slate-600 uppercase mb-2">Add Endpoint</label>
                 <div className="grid grid-cols-3 gap-3">
-                    {(['openai', 'deepseek'] as ApiProvider[]).map(p => (
+                    {PROVIDER_PRESETS.map(preset => (
                         <button
-                            key={p}
-                            onClick={() => setBackup(p)}
-                            className={`py-2 px-3 rounded-lg text-sm font-medium border transition-all
-                                ${backup === p 
-                                    ? 'bg-indigo-600 text-white border-indigo-600' 
-                                    : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'
-                                }
-                            `}
+                            key={preset.name}
+                            onClick={() => addProvider(preset)}
+                            className="py-2 px-3 rounded-lg text-sm font-medium border bg-white text-slate-600 border-slate-200 hover:border-indigo-300 transition-all"
                         >
-                            {p.charAt(0).toUpperCase() + p.slice(1)}
+                            + {preset.name}
                         </button>
                     ))}
                 </div>
             </div>
 
-            <button 
+            <hr className="border-slate-100" />
+
+            {/* Fallback Rules */}
+            <div>
+                <label className="block text-xs font-bold text-slate-600 uppercase mb-2">Try Next Provider On</label>
+                <div className="space-y-2">
+                    {FALLBACK_RULES.map(rule => (
+                        <label key={rule.errorClass} className="flex items-center gap-2 text-sm text-slate-600">
+                            <input
+                                type="checkbox"
+                                checked={fallbackOn[rule.errorClass]}
+                                onChange={e => setFallbackOn({ ...fallbackOn, [rule.errorClass]: e.target.checked })}
+                            />
+                            {rule.label}
+                            <span className="text-xs text-slate-400">{rule.hint}</span>
+                        </label>
+                    ))}
+                </div>
+                <p className="text-xs text-slate-400 mt-2">Providers without a key or speech model are always skipped.</p>
+            </div>
+
+            {error && (
+                <div className="bg-rose-50 text-rose-700 text-sm p-3 rounded-lg border border-rose-100">{error}</div>
+            )}
+
+            <button
                 onClick={handleSave}
                 className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold hover:bg-indigo-700 transition-colors shadow-sm"
             >
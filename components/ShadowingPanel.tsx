@@ -0,0 +1,288 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ShadowingRecording, ShadowingScore } from '../types';
+import { compareSpeech, decodeRecording, SpeechSamples, waveformPeaks } from '../services/shadowingService';
+
+interface Props {
+  sentence: { text: string, offset: number };
+  reference: SpeechSamples | null; // The narrated sentence, at the current playback speed
+  referenceStatus?: 'loading' | 'failed';
+  recordings: ShadowingRecording[]; // Earlier attempts at this sentence, oldest first
+  onSave: (recording: Pick<ShadowingRecording, 'offset' | 'sentence' | 'audio' | 'duration' | 'score'>) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+type Stage = 'idle' | 'listening' | 'recording' | 'scoring' | 'replaying';
+
+const STAGE_LABELS: Record<Stage, string> = {
+  idle: '',
+  listening: 'Listen...',
+  recording: 'Your turn: repeat the sentence',
+  scoring: 'Comparing...',
+  replaying: 'Narration, then you'
+};
+
+const WAVEFORM_BARS = 80;
+// Recording stops by itself once the learner has had this much longer than the narration
+const RECORDING_SLACK = 1.5;
+const RECORDING_EXTRA_SECONDS = 1;
+const REPLAY_GAP_MS = 400;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const scoreClass = (score: number) =>
+  score >= 0.8 ? 'text-emerald-600' : score >= 0.6 ? 'text-amber-600' : 'text-rose-600';
+
+const Waveform: React.FC<{ samples: Float32Array | null, label: string, className: string }> = ({ samples, label, className }) => {
+  const peaks = useMemo(() => waveformPeaks(samples || new Float32Array(0), WAVEFORM_BARS), [samples]);
+  return (
+    <div>
+      <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">{label}</p>
+      <div className="flex items-center gap-px h-12 bg-slate-50 rounded-lg px-1">
+        {peaks.map((peak, i) => (
+          <div key={i} className={`flex-1 rounded-full ${samples ? className : 'bg-slate-200'}`} style={{ height: `${Math.max(4, peak * 100)}%` }}></div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const ShadowingPanel: React.FC<Props> = ({ sentence, reference, referenceStatus, recordings, onSave, onDelete, onClose }) => {
+  const [stage, setStage] = useState<Stage>('idle');
+  const [error, setError] = useState<string | null>(null);
+  // The attempt being shown: just recorded, or picked from the earlier ones
+  const [attempt, setAttempt] = useState<{ samples: Float32Array, score: ShadowingScore, id?: string } | null>(null);
+
+  const contextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const runRef = useRef(0); // Bumped to abandon the cycle in progress
+
+  const cancel = () => {
+      runRef.current++;
+      if (sourceRef.current) {
+          try { sourceRef.current.stop(); } catch(e){}
+          sourceRef.current = null;
+      }
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+      recorderRef.current = null;
+      setStage('idle');
+  };
+
+  // Another sentence starts over
+  useEffect(() => {
+      cancel();
+      setAttempt(null);
+      setError(null);
+  }, [sentence.offset]);
+
+  useEffect(() => () => {
+      runRef.current++;
+      try { sourceRef.current?.stop(); } catch(e){}
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      if (contextRef.current && contextRef.current.state !== 'closed') contextRef.current.close();
+  }, []);
+
+  const playSamples = (samples: Float32Array, sampleRate: number) => new Promise<void>(resolve => {
+      if (!contextRef.current || contextRef.current.sampleRate !== sampleRate) {
+          contextRef.current?.close();
+          const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+          contextRef.current = new AudioContextClass({ sampleRate });
+      }
+      const ctx = contextRef.current;
+      const buffer = ctx.createBuffer(1, Math.max(1, samples.length), sampleRate);
+      buffer.getChannelData(0).set(samples);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => resolve();
+      sourceRef.current = source;
+      source.start();
+  });
+
+  // Narration and attempt back to back
+  const replay = async (samples: Float32Array, run: number) => {
+      if (!reference) return;
+      setStage('replaying');
+      await playSamples(reference.samples, reference.sampleRate);
+      if (runRef.current !== run) return;
+      await new Promise(resolve => setTimeout(resolve, REPLAY_GAP_MS));
+      if (runRef.current !== run) return;
+      await playSamples(samples, reference.sampleRate);
+      if (runRef.current === run) setStage('idle');
+  };
+
+  const record = (stream: MediaStream, run: number) => new Promise<Blob>(resolve => {
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+      recorderRef.current = recorder;
+      recorder.start();
+      setStage('recording');
+      const limit = (reference!.samples.length / reference!.sampleRate) * RECORDING_SLACK + RECORDING_EXTRA_SECONDS;
+      setTimeout(() => {
+          if (runRef.current === run && recorder.state === 'recording') recorder.stop();
+      }, limit * 1000);
+  });
+
+  const start = async () => {
+      if (!reference) return;
+      cancel();
+      const run = runRef.current;
+      setError(null);
+
+      // Asked before listening, so a permission prompt does not cut into the learner's turn
+      if (!streamRef.current) {
+          try {
+              streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+          } catch (e) {
+              console.warn("Microphone unavailable", e);
+              setError("The microphone is not available. Allow access to it to practise speaking.");
+              return;
+          }
+      }
+      if (runRef.current !== run) return;
+
+      setStage('listening');
+      await playSamples(reference.samples, reference.sampleRate);
+      if (runRef.current !== run) return;
+
+      const audio = await record(streamRef.current, run);
+      if (runRef.current !== run) return;
+
+      setStage('scoring');
+      try {
+          const recorded = await decodeRecording(audio, reference.sampleRate);
+          if (runRef.current !== run) return;
+          const score = compareSpeech(reference, recorded);
+          if (!score) {
+              setError("No speech was heard. Check the microphone and try again.");
+              setStage('idle');
+              return;
+          }
+          setAttempt({ samples: recorded.samples, score });
+          onSave({ offset: sentence.offset, sentence: sentence.text, audio, duration: recorded.samples.length / recorded.sampleRate, score });
+          await replay(recorded.samples, run);
+      } catch (e) {
+          console.error("Could not process the recording", e);
+          setError("The recording could not be processed.");
+          setStage('idle');
+      }
+  };
+
+  // Recording stopped early by the learner; the cycle carries on with what was said
+  const finishRecording = () => {
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  const openRecording = async (recording: ShadowingRecording) => {
+      if (!reference) return;
+      cancel();
+      const run = runRef.current;
+      try {
+          const { samples } = await decodeRecording(recording.audio, reference.sampleRate);
+          if (runRef.current !== run) return;
+          setAttempt({ samples, score: recording.score, id: recording.id });
+          await replay(samples, run);
+      } catch (e) {
+          console.error("Could not play the recording", e);
+          setError("This recording could not be played.");
+      }
+  };
+
+  const deleteRecording = (id: string) => {
+      if (attempt?.id === id) setAttempt(null);
+      onDelete(id);
+  };
+
+  const best = recordings.reduce((max, r) => Math.max(max, r.score.overall), 0);
+  const isBusy = stage !== 'idle';
+
+  return (
+    <div className="fixed bottom-4 inset-x-0 z-40 px-2">
+      <div className="max-w-3xl mx-auto bg-white border border-slate-200 rounded-2xl shadow-2xl p-5 animate-fade-in max-h-[60vh] overflow-y-auto">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-xs font-bold text-rose-500 uppercase tracking-wider mb-1">Shadowing</h3>
+            <p className="text-slate-800">{sentence.text.trim()}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="space-y-3 mb-4">
+          <Waveform samples={reference?.samples || null} label="Narration" className="bg-indigo-400" />
+          <Waveform samples={attempt?.samples || null} label="You" className="bg-rose-400" />
+        </div>
+
+        {attempt && (
+          <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 mb-4 text-sm">
+            <span className={`text-2xl font-bold ${scoreClass(attempt.score.overall)}`}>{percent(attempt.score.overall)}</span>
+            <span className="text-slate-500">Length {percent(attempt.score.duration)}</span>
+            <span className="text-slate-500">Rhythm {percent(attempt.score.energy)}</span>
+            <span className="text-slate-500">Intonation {attempt.score.pitch === undefined ? '–' : percent(attempt.score.pitch)}</span>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-rose-600 mb-3">{error}</p>}
+
+        <div className="flex items-center gap-3">
+          {stage === 'recording' ? (
+            <button onClick={finishRecording} className="px-4 py-2 rounded-lg bg-rose-600 text-white text-sm font-medium hover:bg-rose-700 transition-colors flex items-center gap-2">
+              <span className="w-2.5 h-2.5 bg-white rounded-full animate-pulse"></span>
+              Done
+            </button>
+          ) : isBusy ? (
+            <button onClick={cancel} className="px-4 py-2 rounded-lg bg-slate-100 text-slate-600 text-sm font-medium hover:bg-slate-200 transition-colors">
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={start}
+              disabled={!reference}
+              className="px-4 py-2 rounded-lg bg-rose-600 text-white text-sm font-medium hover:bg-rose-700 transition-colors disabled:opacity-40"
+            >
+              {attempt ? 'Try Again' : 'Start'}
+            </button>
+          )}
+          <span className="text-sm text-slate-500">
+            {referenceStatus === 'loading' ? 'Preparing the narration...'
+              : referenceStatus === 'failed' ? 'The narration of this sentence could not be loaded.'
+              : STAGE_LABELS[stage]}
+          </span>
+        </div>
+
+        {recordings.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-slate-100">
+            <p className="text-xs text-slate-400 mb-2">
+              {recordings.length} attempt{recordings.length === 1 ? '' : 's'} · best {percent(best)}
+            </p>
+            <ul className="space-y-1">
+              {[...recordings].reverse().map(recording => (
+                <li key={recording.id} className={`flex items-center gap-3 text-sm px-2 py-1 rounded ${attempt?.id === recording.id ? 'bg-rose-50' : ''}`}>
+                  <button
+                    onClick={() => openRecording(recording)}
+                    disabled={!reference || isBusy}
+                    className="text-indigo-500 hover:text-indigo-700 disabled:opacity-40"
+                    title="Play the narration and this attempt"
+                  >
+                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+                  </button>
+                  <span className={`font-medium w-10 ${scoreClass(recording.score.overall)}`}>{percent(recording.score.overall)}</span>
+                  <span className="flex-1 text-slate-400">{new Date(recording.recordedAt).toLocaleString()}</span>
+                  <button onClick={() => deleteRecording(recording.id)} className="text-slate-300 hover:text-rose-500" title="Delete recording">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,19 @@
 
 import React from 'react';
-import { VocabularyItem } from '../types';
+import { GrammarNote, VocabularyItem } from '../types';
 import { decodeAudioData } from '../services/aiService';
 
 interface Props {
   vocabulary: VocabularyItem[];
   onUploadDictionary: () => void;
+  onExport: () => void;
   onViewWord: (word: VocabularyItem) => void;
   onStartReview: () => void;
+  grammarNotes: GrammarNote[];
+  onOpenGrammar: () => void;
 }
 
-// Helper to calculate urgency based on Ebbinghaus
+// Helper to calculate urgency based on the scheduled review date
 const getReviewStatus = (nextReview: number) => {
     const now = Date.now();
     const diffHours = (nextReview - now) / (1000 * 60 * 60);
@@ -20,7 +23,7 @@ const getReviewStatus = (nextReview: number) => {
     return { color: 'bg-green-400', text: 'On Track' };
 };
 
-export const SidebarRight: React.FC<Props> = ({ vocabulary, onUploadDictionary, onViewWord, onStartReview }) => {
+export const SidebarRight: React.FC<Props> = ({ vocabulary, onUploadDictionary, onExport, onViewWord, onStartReview, grammarNotes, onOpenGrammar }) => {
 
   const playAudio = async (e: React.MouseEvent, base64?: string, encoding?: 'pcm' | 'mp3') => {
     e.stopPropagation();
@@ -43,6 +46,7 @@ export const SidebarRight: React.FC<Props> = ({ vocabulary, onUploadDictionary,
   };
 
   const dueCount = vocabulary.filter(v => v.nextReviewAt <= Date.now()).length;
+  const grammarDue = grammarNotes.filter(n => n.nextReviewAt <= Date.now()).length;
 
   return (
     <div className="h-full w-full bg-slate-50 border-l border-slate-200 p-4 flex flex-col overflow-hidden pt-14 lg:pt-4">
@@ -50,13 +54,24 @@ export const SidebarRight: React.FC<Props> = ({ vocabulary, onUploadDictionary,
         <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider">
           Vocabulary
         </h2>
-        <button 
-          onClick={onUploadDictionary}
-          className="text-xs text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
-        >
-          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
-          Import Dict
-        </button>
+        <div className="flex items-center gap-3">
+          <button 
+            onClick={onUploadDictionary}
+            className="text-xs text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
+          >
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+            Import Dict
+          </button>
+          {vocabulary.length > 0 && (
+            <button 
+              onClick={onExport}
+              className="text-xs text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+              Export
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Review Action Button */}
@@ -75,6 +90,22 @@ export const SidebarRight: React.FC<Props> = ({ vocabulary, onUploadDictionary,
             </button>
         </div>
       )}
+
+      {/* Grammar Notebook */}
+      <button
+        onClick={onOpenGrammar}
+        className="mb-4 w-full py-2 px-4 rounded-xl text-sm font-medium bg-white text-slate-600 border border-slate-200 hover:border-indigo-300 hover:text-indigo-600 transition-all flex items-center justify-between"
+      >
+        <span className="flex items-center gap-2">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
+          Grammar Notebook
+        </span>
+        {grammarDue > 0 ? (
+          <span className="min-w-[1.25rem] h-5 px-1.5 rounded-full bg-rose-500 text-white text-xs font-bold flex items-center justify-center" title={`${grammarDue} grammar points due`}>{grammarDue}</span>
+        ) : (
+          <span className="text-xs text-slate-400">{grammarNotes.length}</span>
+        )}
+      </button>
       
       <div className="flex-1 overflow-y-auto pr-2 space-y-2">
          {vocabulary.length === 0 ? (
@@ -84,7 +115,7 @@ export const SidebarRight: React.FC<Props> = ({ vocabulary, onUploadDictionary,
          ) : (
              vocabulary.map((item) => {
                  const status = getReviewStatus(item.nextReviewAt);
-                 // Visual cap for the stages (since there are 5 intervals defined in App.tsx)
+                 // Visual cap for the streak of successful reviews
                  const maxStages = 5;
                  const currentStage = Math.min(item.reviewStage, maxStages);
 
@@ -114,8 +145,8 @@ export const SidebarRight: React.FC<Props> = ({ vocabulary, onUploadDictionary,
                         
                         <div className="text-xs text-slate-500 truncate mb-2">{item.definitionEN}</div>
                         
-                        {/* Ebbinghaus Mastery Stage Indicator */}
-                        <div className="flex gap-1 items-center mt-2" title={`Mastery Stage: ${item.reviewStage}/5`}>
+                        {/* Mastery Indicator (successful review streak) */}
+                        <div className="flex gap-1 items-center mt-2" title={`Review streak: ${item.reviewStage} · Lapses: ${item.lapses ?? 0}`}>
                             {Array.from({ length: maxStages }).map((_, i) => (
                                 <div 
                                     key={i} 
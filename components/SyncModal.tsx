@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { SyncStatus, syncNow } from '../services/syncService';
+import { signIn, signUp, signOut } from '../services/supabaseService';
+
+interface Props {
+  status: SyncStatus;
+  onClose: () => void;
+}
+
+const PHASE_LABELS: Record<SyncStatus['phase'], string> = {
+  'unavailable': 'Not configured',
+  'signed-out': 'Signed out',
+  'idle': 'Up to date',
+  'syncing': 'Syncing...',
+  'offline': 'Offline, changes are queued',
+  'error': 'Sync failed'
+};
+
+export const SyncModal: React.FC<Props> = ({ status, onClose }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const signedIn = !!status.email;
+
+  const runAuth = async (action: 'signIn' | 'signUp') => {
+    setIsBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      if (action === 'signIn') {
+        await signIn(email.trim(), password);
+      } else {
+        const session = await signUp(email.trim(), password);
+        if (!session) setNotice('Check your inbox to confirm the account, then sign in.');
+      }
+      setPassword('');
+    } catch (e: any) {
+      console.error("Authentication failed", e);
+      setError(e?.message || 'Authentication failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await signOut();
+    } catch (e: any) {
+      setError(e?.message || 'Sign out failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const { lastResult } = status;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full animate-scale-in overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-indigo-50">
+          <h2 className="text-xl font-bold text-slate-800">Cloud Sync</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-slate-500">
+            Keep vocabulary, review progress and reading history in step across your devices. Audio stays on each device.
+          </p>
+
+          <div className="text-sm text-slate-600 bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-1">
+            <div className="flex justify-between">
+              <span className="font-medium">{PHASE_LABELS[status.phase]}</span>
+              {status.pending > 0 && <span className="text-slate-400">{status.pending} pending</span>}
+            </div>
+            {status.lastSyncedAt && (
+              <div className="text-xs text-slate-400">
+                Last synced {new Date(status.lastSyncedAt).toLocaleString()}
+                {lastResult && ` · ${lastResult.pulled} received, ${lastResult.pushed} sent`}
+                {lastResult && lastResult.conflicts > 0 && `, ${lastResult.conflicts} conflicts resolved`}
+              </div>
+            )}
+            {status.error && <div className="text-xs text-rose-600">{status.error}</div>}
+          </div>
+
+          {signedIn ? (
+            <div className="space-y-3">
+              <p className="text-sm text-slate-600">Signed in as <span className="font-medium">{status.email}</span></p>
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={() => syncNow()}
+                  disabled={isBusy || status.phase === 'syncing'}
+                  className="bg-indigo-600 text-white py-3 rounded-xl font-bold hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50"
+                >
+                  Sync Now
+                </button>
+                <button
+                  onClick={handleSignOut}
+                  disabled={isBusy}
+                  className="bg-white text-slate-600 py-3 rounded-xl font-bold border border-slate-200 hover:border-indigo-300 transition-colors disabled:opacity-50"
+                >
+                  Sign Out
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-xs font-bold text-slate-600 uppercase mb-1">Email</label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={e => setEmail(e.target.value)}
+                  className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-600 uppercase mb-1">Password</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={() => runAuth('signIn')}
+                  disabled={isBusy || !email || !password}
+                  className="bg-indigo-600 text-white py-3 rounded-xl font-bold hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50"
+                >
+                  Sign In
+                </button>
+                <button
+                  onClick={() => runAuth('signUp')}
+                  disabled={isBusy || !email || !password}
+                  className="bg-white text-slate-600 py-3 rounded-xl font-bold border border-slate-200 hover:border-indigo-300 transition-colors disabled:opacity-50"
+                >
+                  Create Account
+                </button>
+              </div>
+            </div>
+          )}
+
+          {notice && (
+            <div className="bg-emerald-50 text-emerald-700 text-sm p-3 rounded-lg border border-emerald-100">{notice}</div>
+          )}
+          {error && (
+            <div className="bg-rose-50 text-rose-700 text-sm p-3 rounded-lg border border-rose-100">{error}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
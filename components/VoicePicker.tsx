@@ -0,0 +1,46 @@
+import React from 'react';
+import { ApiProviderKind, VoiceGender, VoicePreference } from '../types';
+import { PROVIDER_VOICES, SPEAKING_RATES, VOICE_PROVIDER_LABELS } from '../services/voiceService';
+
+interface Props {
+  value: VoicePreference;
+  onChange: (preference: VoicePreference) => void;
+}
+
+const selectClass = "px-2 py-1 border border-slate-200 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+// "gender:female" for a provider's default voice, otherwise the voice name itself
+const voiceValue = (preference: VoicePreference) => preference.voice || `gender:${preference.gender}`;
+
+export const VoicePicker: React.FC<Props> = ({ value, onChange }) => {
+  const handleVoiceChange = (selected: string) => {
+    if (selected.startsWith('gender:')) {
+      onChange({ ...value, gender: selected.slice('gender:'.length) as VoiceGender, voice: undefined });
+      return;
+    }
+    // Other providers fall back to a voice of the same gender
+    const voice = Object.values(PROVIDER_VOICES).flat().find(v => v.name === selected);
+    onChange({ ...value, voice: selected, gender: voice?.gender || value.gender });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select value={voiceValue(value)} onChange={e => handleVoiceChange(e.target.value)} className={selectClass} title="Voice">
+        <option value="gender:female">Female</option>
+        <option value="gender:male">Male</option>
+        {(Object.keys(PROVIDER_VOICES) as ApiProviderKind[]).map(kind => (
+          <optgroup key={kind} label={VOICE_PROVIDER_LABELS[kind]}>
+            {PROVIDER_VOICES[kind].map(v => (
+              <option key={v.name} value={v.name}>{v.name} ({v.gender})</option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+      <select value={value.rate} onChange={e => onChange({ ...value, rate: parseFloat(e.target.value) })} className={selectClass} title="Speaking rate">
+        {SPEAKING_RATES.map(({ rate, label }) => (
+          <option key={rate} value={rate}>{label}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
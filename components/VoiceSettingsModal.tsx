@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Language, LearnerProfile, VoicePreference } from '../types';
+import { orderLanguages } from '../services/profileService';
+import { voicePreferenceFor } from '../services/voiceService';
+import { VoicePicker } from './VoicePicker';
+
+interface Props {
+  preferences: Partial<Record<Language, VoicePreference>>;
+  profile: LearnerProfile; // Study languages are listed first
+  onSave: (preferences: Partial<Record<Language, VoicePreference>>) => void;
+  onClose: () => void;
+}
+
+export const VoiceSettingsModal: React.FC<Props> = ({ preferences, profile, onSave, onClose }) => {
+  const [draft, setDraft] = useState(preferences);
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full animate-scale-in overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-indigo-50">
+          <h2 className="text-xl font-bold text-slate-800">Narration Voices</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <p className="text-sm text-slate-500">
+            Used for new narrations and word pronunciations. A named voice only exists at its own provider; the others use a voice of the same gender. Slower rates help at the beginning.
+          </p>
+
+          <div className="space-y-2">
+            {orderLanguages(profile).map(language => (
+              <div key={language} className="flex items-center gap-2 p-3 border border-slate-200 rounded-lg">
+                <span className="flex-1 text-sm font-medium text-slate-800">{language}</span>
+                <VoicePicker
+                  value={voicePreferenceFor(draft, language)}
+                  onChange={preference => setDraft(prev => ({ ...prev, [language]: preference }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={handleSave}
+            className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold hover:bg-indigo-700 transition-colors shadow-sm"
+          >
+            Save Voices
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,26 @@
 import React from 'react';
-import { VocabularyItem } from '../types';
+import { VocabularyItem, WordOccurrence } from '../types';
 
 interface Props {
   item: VocabularyItem | null;
   onClose: () => void;
   onReview: (id: string) => void;
+  isKnown?: boolean;
+  onToggleKnown?: (item: VocabularyItem) => void;
+  occurrences?: WordOccurrence[];
+  articleTitles?: Record<string, string>;
+  onJumpToOccurrence?: (occurrence: WordOccurrence) => void;
 }
 
-export const WordDetailModal: React.FC<Props> = ({ item, onClose, onReview }) => {
+// Emphasizes the first case-insensitive match of the word in a sentence
+const highlightWord = (sentence: string, word: string) => {
+  const at = sentence.toLowerCase().indexOf(word.trim().toLowerCase());
+  if (at < 0 || !word.trim()) return sentence;
+  const end = at + word.trim().length;
+  return <>{sentence.slice(0, at)}<strong className="text-indigo-700">{sentence.slice(at, end)}</strong>{sentence.slice(end)}</>;
+};
+
+export const WordDetailModal: React.FC<Props> = ({ item, onClose, onReview, isKnown, onToggleKnown, occurrences = [], articleTitles = {}, onJumpToOccurrence }) => {
   if (!item) return null;
 
   return (
@@ -20,6 +33,13 @@ export const WordDetailModal: React.FC<Props> = ({ item, onClose, onReview }) =>
            <div>
              <h2 className="text-3xl font-bold text-slate-900">{item.word}</h2>
              <p className="text-indigo-600 font-mono text-lg mt-1">/{item.phonetic}/</p>
+             {((item.lemma && item.lemma !== item.word) || (item.variants && item.variants.length > 0)) && (
+               <p className="text-xs text-slate-400 mt-1">
+                 {item.lemma && item.lemma !== item.word && <>Dictionary form: <span className="text-slate-600 font-medium">{item.lemma}</span></>}
+                 {item.lemma && item.lemma !== item.word && item.variants && item.variants.length > 0 && ' · '}
+                 {item.variants && item.variants.length > 0 && <>Also seen as: <span className="text-slate-600">{item.variants.join(', ')}</span></>}
+               </p>
+             )}
            </div>
            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
@@ -61,19 +81,57 @@ export const WordDetailModal: React.FC<Props> = ({ item, onClose, onReview }) =>
                     <p className="text-slate-700 bg-slate-50 p-3 rounded border border-slate-100">{item.academicExample}</p>
                 </div>
             </div>
+
+            {/* Real-world examples from the learner's reading */}
+            {occurrences.length > 0 && (
+                <div>
+                    <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Seen In Your Reading ({occurrences.length})</h4>
+                    <ul className="space-y-2">
+                        {occurrences.map(occurrence => (
+                            <li key={occurrence.id} className="p-3 rounded border border-slate-100 text-sm">
+                                <p className="text-slate-700">{highlightWord(occurrence.sentence, item.word)}</p>
+                                <div className="mt-2 flex items-center justify-between gap-2 text-xs text-slate-400">
+                                    <span className="truncate">
+                                        {articleTitles[occurrence.articleId] || 'Article'} · {new Date(occurrence.seenAt).toLocaleDateString()}
+                                    </span>
+                                    {onJumpToOccurrence && (
+                                        <button
+                                            onClick={() => onJumpToOccurrence(occurrence)}
+                                            className="shrink-0 font-medium text-indigo-600 hover:text-indigo-800"
+                                        >
+                                            Jump to sentence →
+                                        </button>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             
             <div className="mt-4 pt-4 border-t border-slate-100 flex items-center justify-between">
                 <div className="text-xs text-slate-400">
                     <div>Last Reviewed: {new Date(item.lastReviewedAt || item.addedAt).toLocaleDateString()}</div>
                     <div>Next Review: {new Date(item.nextReviewAt).toLocaleDateString()}</div>
                 </div>
-                <button 
-                  onClick={() => onReview(item.id)}
-                  className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors flex items-center gap-2 shadow-sm"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-                  Mark as Reviewed
-                </button>
+                <div className="flex items-center gap-2">
+                  {onToggleKnown && (
+                    <button
+                      onClick={() => onToggleKnown(item)}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors ${isKnown ? 'bg-emerald-50 border-emerald-200 text-emerald-700 hover:bg-emerald-100' : 'border-slate-200 text-slate-600 hover:border-indigo-300'}`}
+                      title={isKnown ? 'No longer treat this word as known' : 'Stop highlighting this word in articles'}
+                    >
+                      {isKnown ? 'Known ✓' : 'Mark as Known'}
+                    </button>
+                  )}
+                  <button 
+                    onClick={() => onReview(item.id)}
+                    className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors flex items-center gap-2 shadow-sm"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+                    Mark as Reviewed
+                  </button>
+                </div>
             </div>
         </div>
       </div>
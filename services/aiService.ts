@@ -1,12 +1,78 @@
 
 import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { Language, Article, ApiSettings, ApiProvider, WordDefinition } from "../types";
+import { Language, Article, ApiSettings, ApiProvider, WordDefinition, FallbackErrorClass, CefrLevel, ReadingAnnotation, TranslationTarget, GrammarPoint, VoicePreference, NarrationVoice } from "../types";
+import { CEFR_LEVELS, DEFAULT_LEVEL } from "./profileService";
+import { segmentWords } from "./textService";
+import { alignReadings } from "./readingService";
+import { translationTargetName } from "./translationService";
+import { DEFAULT_VOICE_PREFERENCE, voiceFor } from "./voiceService";
+import { getProviderChain, resolveApiKey, requiresApiKey } from "./providerService";
+import {
+  ResponseSchema,
+  NewsResponse,
+  ArticleResponse,
+  ReadingResponse,
+  TranslationResponse,
+  GrammarPointResponse,
+  WORD_DEFINITION_SCHEMA,
+  NEWS_RESPONSE_SCHEMA,
+  ARTICLE_LIST_SCHEMA,
+  READING_LIST_SCHEMA,
+  TRANSLATION_LIST_SCHEMA,
+  GRAMMAR_POINT_LIST_SCHEMA,
+  parseResponse,
+  correctionPrompt
+} from "./responseSchema";
 
 // --- Helper: Error Detection ---
 
 export const isQuotaError = (error: any): boolean => {
   const msg = error?.message?.toLowerCase() || '';
-  return msg.includes('quota') || msg.includes('429') || msg.includes('resource exhausted') || msg.includes('limit');
+  return error?.status === 429 || msg.includes('quota') || msg.includes('429') || msg.includes('resource exhausted') || msg.includes('limit');
+};
+
+// The provider cannot serve this request at all (no key, no TTS model); always try the next one
+export class ProviderUnavailableError extends Error {}
+
+// The provider answered, but not with the JSON we asked for
+export class MalformedResponseError extends Error {}
+
+const isNetworkError = (error: any): boolean => {
+  if (typeof error?.status === 'number' && error.status >= 500) return true;
+  const msg = error?.message?.toLowerCase() || '';
+  return error?.name === 'TypeError' && /fetch|network|load failed/.test(msg)
+    || msg.includes('failed to fetch') || msg.includes('networkerror') || msg.includes('timed out');
+};
+
+const classifyError = (error: any): FallbackErrorClass | 'unavailable' | null => {
+  if (error instanceof ProviderUnavailableError) return 'unavailable';
+  if (isQuotaError(error)) return 'quota';
+  if (error instanceof MalformedResponseError || error instanceof SyntaxError) return 'malformed';
+  if (isNetworkError(error)) return 'network';
+  return null;
+};
+
+/**
+ * Validates a model reply against its schema, repairing what can be repaired. If that is
+ * not enough, the same provider gets one corrective re-prompt before the reply is treated
+ * as malformed (which lets the provider chain fall back).
+ */
+const parseStructured = async <T>(
+  text: string | undefined,
+  schema: ResponseSchema<T>,
+  source: string,
+  reprompt: (correction: string) => Promise<string | undefined>
+): Promise<T> => {
+  const first = parseResponse(text, schema);
+  if (first.value !== undefined) {
+    if (first.repairs.length > 0) console.debug(`Repaired ${schema.name} from ${source}:`, first.repairs);
+    return first.value;
+  }
+
+  console.warn(`${source} returned an unusable ${schema.name}, asking again:`, first.errors);
+  const second = parseResponse(await reprompt(correctionPrompt(schema, first.errors)), schema);
+  if (second.value !== undefined) return second.value;
+  throw new MalformedResponseError(`${source} returned an invalid ${schema.name}: ${second.errors.join('; ')}`);
 };
 
 // --- Helper: Decode Audio ---
@@ -51,43 +117,144 @@ export const decodeAudioData = async (
   }
 };
 
+// --- Level Targeting ---
+
+interface LevelGuide {
+    words: number; // Approximate article length
+    vocabulary: string;
+    sentences: string;
+}
+
+const LEVEL_GUIDES: Record<CefrLevel, LevelGuide> = {
+    A1: { words: 80, vocabulary: 'only the most common everyday words; avoid idioms', sentences: 'very short, simple sentences in the present tense' },
+    A2: { words: 110, vocabulary: 'high-frequency everyday vocabulary; explain or avoid rare words', sentences: 'short sentences with simple connectors (and, but, because)' },
+    B1: { words: 150, vocabulary: 'common vocabulary with a few topic-specific words', sentences: 'mostly simple sentences with some subordinate clauses' },
+    B2: { words: 200, vocabulary: 'a broad general vocabulary including some abstract terms', sentences: 'varied sentence length with natural use of complex sentences' },
+    C1: { words: 250, vocabulary: 'precise, idiomatic and some specialised vocabulary', sentences: 'complex, well-linked sentences as in quality journalism' },
+    C2: { words: 300, vocabulary: 'the full native range, including idioms and nuanced word choice', sentences: 'sophisticated structures without simplification' }
+};
+
+const levelInstructions = (level: CefrLevel) => {
+    const guide = LEVEL_GUIDES[level];
+    return `Target CEFR level ${level} (approx ${guide.words} words). Vocabulary: ${guide.vocabulary}. Sentences: ${guide.sentences}.`;
+};
+
+// --- Word & Phrase Analysis ---
+
+// More than one word token means the learner selected a phrase, which is explained as a unit
+const isPhrase = (text: string, language: Language) => segmentWords(text, language).length > 1;
+
+const analysisSubject = (word: string, language: Language, context: string) => isPhrase(word, language)
+    ? `Analyze the ${language} phrase "${word}" as a single unit (idiom, collocation or fixed expression), not word by word.
+        Context sentence: "${context || ''}".
+        The definitions must explain what the whole phrase means here, say whether it is idiomatic or a common collocation, and note any literal meaning that differs.
+        Both examples must use the whole phrase.`
+    : `Analyze the word "${word}" in the context of ${language}. 
+        Context sentence: "${context || ''}".`;
+
+const LEMMA_HINT = 'dictionary form of the word or phrase, e.g. the infinitive or plain non-past form (食べる, 먹다)';
+
+const READING_GUIDES: Partial<Record<Language, string>> = {
+    [Language.JAPANESE]: 'List every word that contains kanji, exactly as written (including okurigana), with its reading in hiragana as pronounced in this context, e.g. {"text": "食べる", "reading": "たべる"}.',
+    [Language.CANTONESE]: 'List every word written in Chinese characters, exactly as written, with its Jyutping romanization using tone numbers and one syllable per character, e.g. {"text": "廣東話", "reading": "gwong2 dung1 waa2"}.'
+};
+
+const readingsPrompt = (text: string, language: Language) => `
+        You are annotating a ${language} text for a language learner.
+        ${READING_GUIDES[language]}
+        Keep the words in the order they appear and repeat a word each time it occurs.
+
+        Text:
+        ${text}
+        `;
+
+const grammarPrompt = (sentence: string, language: Language, context: string) => `
+        Explain the grammar of this ${language} sentence to a language learner: "${sentence}"
+        ${context && context !== sentence ? `It appears in this passage: "${context}"` : ''}
+        Pick the 1 to 3 constructions a learner is most likely to struggle with (verb endings,
+        particles, moods, honorifics, word order...), not individual vocabulary. For each give:
+        - pattern (the construction in ${language} as a reusable pattern, e.g. "-(으)ㄹ 수 있다" or "il faut que + subjonctif")
+        - explanation (in English, how it is formed and what it expresses here)
+        - examples (2 or 3 new ${language} sentences using the pattern)
+        - level (the CEFR level it is usually taught at, A1 to C2)
+        `;
+
+const translationPrompt = (sentences: string[], language: Language, target: TranslationTarget) => `
+        Translate each numbered ${language} sentence below into natural ${translationTargetName(target)} for a language learner.
+        Translate every sentence on its own, keep the meaning close to the original and do not merge or skip sentences.
+
+        ${sentences.map((sentence, i) => `[${i}] ${sentence}`).join('\n        ')}
+        `;
+
+// Gemini TTS has no rate parameter but follows a spoken style instruction
+const speakingStyle = (rate: number) =>
+    rate < 1 ? 'Read slowly and clearly, for a language learner: '
+    : rate > 1 ? 'Read at a brisk, natural pace: '
+    : '';
+
 // --- Providers ---
 
-class GeminiHandler {
-    private getKey(settings: ApiSettings) {
-        return settings.keys.gemini || process.env.API_KEY;
+interface ProviderHandler {
+    generateSpeech(text: string, language: Language, voice: VoicePreference): Promise<SpeechResult>;
+    analyzeWord(word: string, language: Language, context: string): Promise<WordDefinition>;
+    getNews(language: Language, level: CefrLevel): Promise<NewsResponse>;
+    getGeneralArticles(language: Language, level: CefrLevel): Promise<ArticleResponse[]>;
+    getReadings(text: string, language: Language): Promise<ReadingResponse[]>;
+    translateSentences(sentences: string[], language: Language, target: TranslationTarget): Promise<TranslationResponse[]>;
+    explainGrammar(sentence: string, language: Language, context: string): Promise<GrammarPointResponse[]>;
+}
+
+class GeminiHandler implements ProviderHandler {
+    constructor(private provider: ApiProvider, private apiKey: string | undefined) {}
+
+    private client() {
+        if (!this.apiKey) throw new ProviderUnavailableError(`${this.provider.name} API Key missing`);
+        return new GoogleGenAI({ apiKey: this.apiKey });
     }
 
-    async generateSpeech(text: string, language: Language, settings: ApiSettings) {
-        const apiKey = this.getKey(settings);
-        if (!apiKey) throw new Error("Gemini API Key missing");
-        
-        const ai = new GoogleGenAI({ apiKey });
+    private async generateJson<T>(prompt: string, schema: ResponseSchema<T>, config: Record<string, unknown>): Promise<T> {
+        const ai = this.client();
+        const response = await ai.models.generateContent({ model: this.provider.model, contents: prompt, config });
+
+        return parseStructured(response.text, schema, this.provider.name, async correction => {
+            const retry = await ai.models.generateContent({
+                model: this.provider.model,
+                contents: [
+                    { role: 'user', parts: [{ text: prompt }] },
+                    { role: 'model', parts: [{ text: response.text || '' }] },
+                    { role: 'user', parts: [{ text: correction }] }
+                ],
+                config
+            });
+            return retry.text;
+        });
+    }
+
+    async generateSpeech(text: string, language: Language, voice: VoicePreference) {
+        if (!this.provider.ttsModel) throw new ProviderUnavailableError(`${this.provider.name} has no speech model configured`);
+        const ai = this.client();
+        const voiceName = voiceFor(voice, this.provider.kind);
         const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: text }] }],
+            model: this.provider.ttsModel,
+            contents: [{ parts: [{ text: `${speakingStyle(voice.rate)}${text}` }] }],
             config: {
                 responseModalities: [Modality.AUDIO],
                 speechConfig: {
                     voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
+                        prebuiltVoiceConfig: { voiceName },
                     },
                 },
             },
         });
         const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
         if (!audioData) throw new Error("Gemini TTS failed");
-        return { audioData, encoding: 'pcm' as const };
+        return { audioData, encoding: 'pcm' as const, voice: { provider: this.provider.name, voice: voiceName, rate: voice.rate } };
     }
 
-    async analyzeWord(word: string, language: Language, context: string, settings: ApiSettings) {
-        const apiKey = this.getKey(settings);
-        if (!apiKey) throw new Error("Gemini API Key missing");
-
-        const ai = new GoogleGenAI({ apiKey });
-        const prompt = `Analyze the word "${word}" in the context of ${language}. 
-        Context sentence: "${context || ''}".
+    async analyzeWord(word: string, language: Language, context: string) {
+        const prompt = `${analysisSubject(word, language, context)}
         Provide the following details in JSON:
+        - lemma (${LEMMA_HINT})
         - phonetic (IPA)
         - pronunciationGuide (Plain text tip)
         - dailyExample (A sentence used in daily life)
@@ -97,15 +264,13 @@ class GeminiHandler {
         - definitionSource (Definition in ${language})
         `;
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
+        return this.generateJson(prompt, WORD_DEFINITION_SCHEMA, {
                 responseMimeType: "application/json",
                 responseSchema: {
                     type: Type.OBJECT,
                     properties: {
                         word: { type: Type.STRING },
+                        lemma: { type: Type.STRING },
                         phonetic: { type: Type.STRING },
                         pronunciationGuide: { type: Type.STRING },
                         dailyExample: { type: Type.STRING },
@@ -116,22 +281,16 @@ class GeminiHandler {
                     },
                     required: ["phonetic", "pronunciationGuide", "dailyExample", "academicExample", "definitionCN", "definitionEN", "definitionSource"]
                 }
-            }
         });
-        if (!response.text) throw new Error("Gemini analysis failed");
-        return JSON.parse(response.text);
     }
 
-    async getNews(language: Language, settings: ApiSettings) {
-        const apiKey = this.getKey(settings);
-        if (!apiKey) throw new Error("Gemini API Key missing");
-
-        const ai = new GoogleGenAI({ apiKey });
+    async getNews(language: Language, level: CefrLevel) {
         const newsPrompt = `
         Act as a language learning content curator.
         Find the single most significant news story today in ${language} from a major official news outlet.
         Ideally, find a news story that includes an OFFICIAL AUDIO narration or video report.
-        Summarize this news event into a high-quality B2-level article (approx 150-200 words).
+        Summarize this news event into a high-quality article for a learner.
+        ${levelInstructions(level)}
         
         You MUST return a raw JSON string (do not use markdown code blocks) with this exact structure:
         {
@@ -142,26 +301,16 @@ class GeminiHandler {
         }
         `;
 
-        const newsResponse = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: newsPrompt,
-            config: {
-                tools: [{ googleSearch: {} }]
-            }
+        // Search grounding cannot be combined with a response schema, so this reply is free text
+        return this.generateJson(newsPrompt, NEWS_RESPONSE_SCHEMA, {
+            tools: [{ googleSearch: {} }]
         });
-
-        let jsonText = newsResponse.text || "{}";
-        jsonText = jsonText.replace(/```json/g, '').replace(/```/g, '').trim();
-        return JSON.parse(jsonText);
     }
 
-    async getGeneralArticles(language: Language, settings: ApiSettings) {
-        const apiKey = this.getKey(settings);
-        if (!apiKey) throw new Error("Gemini API Key missing");
-        
-        const ai = new GoogleGenAI({ apiKey });
+    async getGeneralArticles(language: Language, level: CefrLevel) {
         const generalPrompt = `
-        Write 2 distinct, engaging, and educational articles (approx 150 words each) for a student learning ${language}.
+        Write 2 distinct, engaging, and educational articles for a student learning ${language}.
+        ${levelInstructions(level)} This applies to each article.
         Topics:
         1. A specific cultural tradition or history of a country where ${language} is spoken.
         2. A modern lifestyle trend or technology topic relevant to ${language} speakers.
@@ -169,10 +318,7 @@ class GeminiHandler {
         Return a JSON array of objects with "title" and "content".
         `;
 
-        const generalResponse = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: generalPrompt,
-            config: {
+        return this.generateJson(generalPrompt, ARTICLE_LIST_SCHEMA, {
                 responseMimeType: "application/json",
                 responseSchema: {
                     type: Type.ARRAY,
@@ -185,45 +331,118 @@ class GeminiHandler {
                         required: ["title", "content"]
                     }
                 }
-            }
         });
-        return JSON.parse(generalResponse.text || "[]");
+    }
+
+    async getReadings(text: string, language: Language) {
+        return this.generateJson(`${readingsPrompt(text, language)}
+        Return a JSON array of objects with "text" and "reading".`, READING_LIST_SCHEMA, {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            text: { type: Type.STRING },
+                            reading: { type: Type.STRING }
+                        },
+                        required: ["text", "reading"]
+                    }
+                }
+        });
+    }
+
+    async translateSentences(sentences: string[], language: Language, target: TranslationTarget) {
+        return this.generateJson(`${translationPrompt(sentences, language, target)}
+        Return a JSON array of objects with "index" (the sentence number) and "translation".`, TRANSLATION_LIST_SCHEMA, {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            index: { type: Type.INTEGER },
+                            translation: { type: Type.STRING }
+                        },
+                        required: ["index", "translation"]
+                    }
+                }
+        });
+    }
+
+    async explainGrammar(sentence: string, language: Language, context: string) {
+        return this.generateJson(`${grammarPrompt(sentence, language, context)}
+        Return a JSON array of objects with "pattern", "explanation", "examples" and "level".`, GRAMMAR_POINT_LIST_SCHEMA, {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            pattern: { type: Type.STRING },
+                            explanation: { type: Type.STRING },
+                            examples: { type: Type.ARRAY, items: { type: Type.STRING } },
+                            level: { type: Type.STRING }
+                        },
+                        required: ["pattern", "explanation", "examples", "level"]
+                    }
+                }
+        });
     }
 }
 
-class OpenAICompatibleHandler {
-    private provider: ApiProvider;
-    private baseUrl: string;
-    private model: string;
-
-    constructor(provider: ApiProvider) {
-        this.provider = provider;
-        if (provider === 'openai') {
-            this.baseUrl = 'https://api.openai.com/v1';
-            this.model = 'gpt-4o-mini'; // Efficient model
-        } else { // deepseek
-            this.baseUrl = 'https://api.deepseek.com';
-            this.model = 'deepseek-chat';
-        }
+interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API: OpenAI, DeepSeek,
+ * Ollama, LM Studio, vLLM... Local servers usually need no key.
+ */
+class OpenAICompatibleHandler implements ProviderHandler {
+    constructor(private provider: ApiProvider, private apiKey: string | undefined) {}
+
+    private get baseUrl() {
+        if (!this.provider.baseUrl) throw new ProviderUnavailableError(`${this.provider.name} has no base URL`);
+        return this.provider.baseUrl.replace(/\/+$/, '');
     }
 
-    private getKey(settings: ApiSettings) {
-        if (this.provider === 'openai') {
-            return settings.keys.openai || process.env.OPENAI_API_KEY;
-        } else {
-            return settings.keys.deepseek || process.env.DEEPSEEK_API_KEY;
-        }
+    private headers() {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+        return headers;
     }
 
-    private async fetchChat(prompt: string, settings: ApiSettings, jsonMode: boolean = true) {
-        const apiKey = this.getKey(settings);
-        if (!apiKey) throw new Error(`${this.provider} API Key missing`);
+    private async request(path: string, body: unknown) {
+        if (!this.apiKey && requiresApiKey(this.provider)) {
+            throw new ProviderUnavailableError(`${this.provider.name} API Key missing`);
+        }
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify(body)
+        });
+        if (!response.ok) {
+            // Rejected credentials mean this provider cannot serve anything; move on
+            if (response.status === 401 || response.status === 403) {
+                throw new ProviderUnavailableError(`${this.provider.name} rejected the API key (${response.status})`);
+            }
+            // Keep the status so the fallback manager can classify quota vs server errors
+            throw Object.assign(
+                new Error(`${this.provider.name} API Error: ${response.status} ${response.statusText}`),
+                { status: response.status }
+            );
+        }
+        return response;
+    }
 
+    private async fetchChat(messages: ChatMessage[], jsonMode: boolean = true) {
         const body: any = {
-            model: this.model,
+            model: this.provider.model,
             messages: [
                 { role: "system", content: "You are a helpful language learning assistant. Always respond in valid JSON when requested." },
-                { role: "user", content: prompt }
+                ...messages
             ]
         };
 
@@ -231,51 +450,33 @@ class OpenAICompatibleHandler {
             body.response_format = { type: "json_object" };
         }
 
-        const response = await fetch(`${this.baseUrl}/chat/completions`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKey}`
-            },
-            body: JSON.stringify(body)
-        });
-
-        if (!response.ok) {
-            throw new Error(`${this.provider} API Error: ${response.statusText}`);
-        }
-
+        const response = await this.request('/chat/completions', body);
         const data = await response.json();
-        return data.choices[0].message.content;
+        const content = data?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') throw new MalformedResponseError(`${this.provider.name} returned no message`);
+        return content;
     }
 
-    async generateSpeech(text: string, language: Language, settings: ApiSettings) {
-        // DeepSeek doesn't support TTS standardly. Fallback to OpenAI if available, else fail.
-        if (this.provider === 'deepseek') {
-            if (settings.keys.openai || process.env.OPENAI_API_KEY) {
-                // Pivot to OpenAI for Audio even if DeepSeek is current text provider
-                const oa = new OpenAICompatibleHandler('openai');
-                return oa.generateSpeech(text, language, settings);
-            }
-            throw new Error("DeepSeek does not support TTS and no OpenAI key provided for audio fallback.");
-        }
+    private async generateJson<T>(prompt: string, schema: ResponseSchema<T>): Promise<T> {
+        const first: ChatMessage = { role: "user", content: prompt };
+        const text = await this.fetchChat([first]);
+        return parseStructured(text, schema, this.provider.name, correction => this.fetchChat([
+            first,
+            { role: "assistant", content: text },
+            { role: "user", content: correction }
+        ]));
+    }
 
-        const apiKey = this.getKey(settings);
-        if (!apiKey) throw new Error("OpenAI API Key missing for TTS");
+    async generateSpeech(text: string, language: Language, voice: VoicePreference) {
+        if (!this.provider.ttsModel) throw new ProviderUnavailableError(`${this.provider.name} has no speech model configured`);
 
-        const response = await fetch(`${this.baseUrl}/audio/speech`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKey}`
-            },
-            body: JSON.stringify({
-                model: "tts-1",
-                voice: "alloy",
-                input: text
-            })
+        const voiceName = voiceFor(voice, this.provider.kind);
+        const response = await this.request('/audio/speech', {
+            model: this.provider.ttsModel,
+            voice: voiceName,
+            input: text,
+            speed: voice.rate
         });
-
-        if (!response.ok) throw new Error("OpenAI TTS Failed");
         
         const blob = await response.blob();
         const arrayBuffer = await blob.arrayBuffer();
@@ -286,15 +487,15 @@ class OpenAICompatibleHandler {
         for (let i = 0; i < len; i++) {
             binary += String.fromCharCode(bytes[i]);
         }
-        return { audioData: btoa(binary), encoding: 'mp3' as const };
+        return { audioData: btoa(binary), encoding: 'mp3' as const, voice: { provider: this.provider.name, voice: voiceName, rate: voice.rate } };
     }
 
-    async analyzeWord(word: string, language: Language, context: string, settings: ApiSettings) {
-        const prompt = `Analyze the word "${word}" in the context of ${language}. 
-        Context sentence: "${context || ''}".
+    async analyzeWord(word: string, language: Language, context: string) {
+        const prompt = `${analysisSubject(word, language, context)}
         Return a JSON object with these exact keys:
         {
             "word": "${word}",
+            "lemma": "${LEMMA_HINT}",
             "phonetic": "IPA",
             "pronunciationGuide": "pronunciation tip",
             "dailyExample": "daily life sentence",
@@ -303,15 +504,15 @@ class OpenAICompatibleHandler {
             "definitionEN": "English definition",
             "definitionSource": "Definition in ${language}"
         }`;
-        const json = await this.fetchChat(prompt, settings, true);
-        return JSON.parse(json);
+        return this.generateJson(prompt, WORD_DEFINITION_SCHEMA);
     }
 
-    async getNews(language: Language, settings: ApiSettings) {
+    async getNews(language: Language, level: CefrLevel) {
         // Fallback providers usually can't browse the web easily. We simulate "News".
         const prompt = `
         Act as a language learning content curator.
-        Write a "Breaking News" style article (approx 150 words) about a recent significant event or a general cultural topic relevant to ${language} speakers.
+        Write a "Breaking News" style article about a recent significant event or a general cultural topic relevant to ${language} speakers.
+        ${levelInstructions(level)}
         Since you may not have real-time internet access, choose a timeless or recently historically significant topic if needed, but present it as a news report.
         
         Return a JSON object:
@@ -321,136 +522,166 @@ class OpenAICompatibleHandler {
             "sourceUrl": "", 
             "audioUrl": "" 
         }`;
-        const json = await this.fetchChat(prompt, settings, true);
-        return JSON.parse(json);
+        return this.generateJson(prompt, NEWS_RESPONSE_SCHEMA);
     }
 
-    async getGeneralArticles(language: Language, settings: ApiSettings) {
+    async getGeneralArticles(language: Language, level: CefrLevel) {
         const prompt = `
-        Write 2 distinct, engaging articles (150 words each) for learning ${language}.
+        Write 2 distinct, engaging articles for learning ${language}.
+        ${levelInstructions(level)} This applies to each article.
         1. Cultural tradition.
         2. Modern lifestyle/tech.
         
         Return a JSON object with a key "articles" which is an array of objects { "title": "...", "content": "..." }.
         `;
-        const json = await this.fetchChat(prompt, settings, true);
-        const parsed = JSON.parse(json);
-        return parsed.articles || [];
+        return this.generateJson(prompt, ARTICLE_LIST_SCHEMA);
     }
-}
 
-// --- Main Service Logic (Fallback Manager) ---
+    async getReadings(text: string, language: Language) {
+        return this.generateJson(`${readingsPrompt(text, language)}
+        Return a JSON object with a key "readings" which is an array of objects { "text": "...", "reading": "..." }.`, READING_LIST_SCHEMA);
+    }
 
-const gemini = new GeminiHandler();
-const openai = new OpenAICompatibleHandler('openai');
-const deepseek = new OpenAICompatibleHandler('deepseek');
+    async translateSentences(sentences: string[], language: Language, target: TranslationTarget) {
+        return this.generateJson(`${translationPrompt(sentences, language, target)}
+        Return a JSON object with a key "translations" which is an array of objects { "index": 0, "translation": "..." }.`, TRANSLATION_LIST_SCHEMA);
+    }
 
-const getHandler = (provider: ApiProvider) => {
-    switch (provider) {
-        case 'gemini': return gemini;
-        case 'openai': return openai;
-        case 'deepseek': return deepseek;
-        default: return gemini;
+    async explainGrammar(sentence: string, language: Language, context: string) {
+        return this.generateJson(`${grammarPrompt(sentence, language, context)}
+        Return a JSON object with a key "points" which is an array of objects { "pattern": "...", "explanation": "...", "examples": ["..."], "level": "B1" }.`, GRAMMAR_POINT_LIST_SCHEMA);
     }
+}
+
+// --- Main Service Logic (Fallback Manager) ---
+
+const createHandler = (provider: ApiProvider, settings: ApiSettings): ProviderHandler => {
+    const apiKey = resolveApiKey(provider, settings);
+    return provider.kind === 'gemini'
+        ? new GeminiHandler(provider, apiKey)
+        : new OpenAICompatibleHandler(provider, apiKey);
 };
 
+/**
+ * Runs the operation against each enabled provider in order. A failure moves on to the
+ * next provider when its error class is enabled in `settings.fallbackOn`; providers that
+ * cannot serve the request at all are always skipped. Other errors are thrown as-is.
+ */
 async function executeWithFallback<T>(
-    operation: (handler: any) => Promise<T>,
+    operation: (handler: ProviderHandler) => Promise<T>,
     settings: ApiSettings,
     description: string
 ): Promise<T> {
-    // 1. Try Primary (Gemini)
-    try {
-        return await operation(getHandler('gemini'));
-    } catch (error: any) {
-        const isQuota = isQuotaError(error);
-        const backupProvider = settings.backup;
-        const hasBackup = backupProvider && backupProvider !== 'gemini';
-        
-        // Check if we actually have a key for the backup (or it exists in env)
-        const backupKey = settings.keys[backupProvider] || 
-            (backupProvider === 'openai' ? process.env.OPENAI_API_KEY : process.env.DEEPSEEK_API_KEY);
-        
-        if (isQuota && hasBackup && backupKey) {
-            console.warn(`Gemini Quota Exceeded for ${description}. Switching to ${backupProvider}...`);
-            try {
-                return await operation(getHandler(backupProvider));
-            } catch (backupError) {
-                console.error(`Backup (${backupProvider}) failed for ${description}`, backupError);
-                throw backupError;
-            }
+    const chain = getProviderChain(settings);
+    if (chain.length === 0) throw new Error("No AI provider is enabled. Check your API settings.");
+
+    let lastError: unknown;
+    for (let i = 0; i < chain.length; i++) {
+        const provider = chain[i];
+        try {
+            return await operation(createHandler(provider, settings));
+        } catch (error) {
+            lastError = error;
+            const errorClass = classifyError(error);
+            const next = chain[i + 1];
+            const canFallBack = errorClass === 'unavailable' || (errorClass !== null && settings.fallbackOn[errorClass]);
+            if (!next || !canFallBack) throw error;
+
+            console.warn(`${provider.name} failed for ${description} (${errorClass}). Switching to ${next.name}...`, error);
         }
-        throw error;
     }
+    throw lastError;
 }
 
 // --- Public Methods ---
 
-interface NewsResponse {
-    title: string;
-    content: string;
-    sourceUrl?: string;
-    audioUrl?: string;
-}
-
-interface ArticleResponse {
-    title: string;
-    content: string;
-}
-
-interface SpeechResult {
+export interface SpeechResult {
     audioData: string;
     encoding: 'pcm' | 'mp3';
+    voice: NarrationVoice; // What the serving provider actually used
 }
 
-export const generateSpeech = async (text: string, language: Language, settings: ApiSettings): Promise<SpeechResult> => {
+export const generateSpeech = async (text: string, language: Language, settings: ApiSettings, voice: VoicePreference = DEFAULT_VOICE_PREFERENCE): Promise<SpeechResult> => {
     return executeWithFallback<SpeechResult>(
-        h => h.generateSpeech(text, language, settings),
+        h => h.generateSpeech(text, language, voice),
         settings,
         "generateSpeech"
     );
 };
 
 export const analyzeWord = async (word: string, language: Language, context: string, settings: ApiSettings): Promise<WordDefinition> => {
-    return executeWithFallback<WordDefinition>(
-        h => h.analyzeWord(word, language, context, settings),
+    const details = await executeWithFallback<WordDefinition>(
+        h => h.analyzeWord(word, language, context),
         settings,
         "analyzeWord"
     );
+    // The word itself is optional in the reply; always keep what the learner selected
+    return { ...details, word: details.word || word };
 };
 
-export const preloadLanguageContent = async (language: Language, settings: ApiSettings): Promise<Article[]> => {
+/**
+ * Furigana or Jyutping for every word of an article that needs it, placed by character offset.
+ */
+export const generateReadings = async (content: string, language: Language, settings: ApiSettings): Promise<ReadingAnnotation[]> => {
+    const pairs = await executeWithFallback<ReadingResponse[]>(
+        h => h.getReadings(content, language),
+        settings,
+        "getReadings"
+    );
+    return alignReadings(content, pairs, language);
+};
+
+/**
+ * Translations of `sentences`, in the same order. Sentences the model skipped are undefined.
+ */
+export const translateSentences = async (sentences: string[], language: Language, target: TranslationTarget, settings: ApiSettings): Promise<(string | undefined)[]> => {
+    const translations = await executeWithFallback<TranslationResponse[]>(
+        h => h.translateSentences(sentences, language, target),
+        settings,
+        "translateSentences"
+    );
+    const byIndex = new Map(translations.map(t => [t.index, t.translation]));
+    return sentences.map((_, i) => byIndex.get(i));
+};
+
+/**
+ * The main grammar points of a sentence. `context` is the surrounding passage, if any.
+ */
+export const explainGrammar = async (sentence: string, language: Language, context: string, settings: ApiSettings): Promise<GrammarPoint[]> => {
+    const points = await executeWithFallback<GrammarPointResponse[]>(
+        h => h.explainGrammar(sentence, language, context),
+        settings,
+        "explainGrammar"
+    );
+    return points.map(({ level, ...point }) => {
+        // "B1", "b1" or "B1 (intermediate)" all mean B1; anything else is dropped
+        const cefr = CEFR_LEVELS.find(l => level.toUpperCase().startsWith(l));
+        return cefr ? { ...point, level: cefr } : point;
+    });
+};
+
+export const preloadLanguageContent = async (language: Language, settings: ApiSettings, level: CefrLevel = DEFAULT_LEVEL): Promise<Article[]> => {
     const articles: Article[] = [];
 
     // 1. Get News
     try {
         const newsData = await executeWithFallback<NewsResponse>(
-            h => h.getNews(language, settings),
+            h => h.getNews(language, level),
             settings,
             "getNews"
         );
 
+        // Narration is generated sentence by sentence afterwards, in the background or once opened (narrationService)
         if (newsData && newsData.content) {
-            let audioResult: SpeechResult | undefined = undefined;
-            // Only generate TTS if no official audio URL
-            if (!newsData.audioUrl) {
-                try {
-                    audioResult = await generateSpeech(newsData.content, language, settings);
-                } catch (e) {
-                    console.warn("TTS generation failed for news", e);
-                }
-            }
-
             articles.push({
                 id: crypto.randomUUID(),
                 date: new Date().toLocaleDateString(),
                 title: newsData.title || "Daily News",
                 content: newsData.content,
                 language: language,
-                audioBase64: audioResult?.audioData,
-                audioEncoding: audioResult?.encoding,
                 audioUrl: newsData.audioUrl,
-                sourceUrl: newsData.sourceUrl
+                sourceUrl: newsData.sourceUrl,
+                level
             });
         }
     } catch (e) {
@@ -462,28 +693,19 @@ export const preloadLanguageContent = async (language: Language, settings: ApiSe
     // 2. Get General Articles
     try {
         const generalData = await executeWithFallback<ArticleResponse[]>(
-            h => h.getGeneralArticles(language, settings),
+            h => h.getGeneralArticles(language, level),
             settings,
             "getGeneralArticles"
         );
         
-        // Generate audio in parallel
-        // Note: If using OpenAI fallback, this might be slow/expensive for 2 articles.
-        // We process sequentially to be safe with concurrent limits on fallbacks
         for (const a of generalData) {
-             let audioResult: SpeechResult | undefined = undefined;
-             try {
-                 audioResult = await generateSpeech(a.content, language, settings);
-             } catch(e) { console.warn("TTS failed for article", e); }
-
              articles.push({
                 id: crypto.randomUUID(),
                 date: new Date().toLocaleDateString(),
                 title: a.title,
                 content: a.content,
                 language: language,
-                audioBase64: audioResult?.audioData,
-                audioEncoding: audioResult?.encoding
+                level
             });
         }
     } catch (e) {
@@ -0,0 +1,258 @@
+
+import { ArticleAlignment, AudioTiming, Language } from "../types";
+import { segmentSentences, segmentWords } from "./textService";
+
+// --- Forced Alignment ---
+// A local aligner for narration audio: pauses are found from the signal energy, sentence
+// boundaries are matched to the pauses nearest to where the text says they should be, and
+// words are spread over the speech (not the silence) inside each sentence.
+
+export const FRAME_SECONDS = 0.02;
+const MIN_PAUSE_SECONDS = 0.12;
+// Pauses this long or longer look like sentence breaks
+const SENTENCE_PAUSE_SECONDS = 0.5;
+// Cost of placing a sentence boundary where no pause was found
+const NO_PAUSE_COST = 1.5;
+// Durations closer than this are taken to be the same audio
+const DURATION_TOLERANCE = 0.1;
+
+interface Span {
+    start: number; // Seconds
+    end: number;
+}
+
+/**
+ * RMS energy per frame, mixing all channels.
+ */
+export const frameEnergies = (channels: Float32Array[], sampleRate: number): Float32Array => {
+    const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+    const length = channels[0]?.length || 0;
+    const energies = new Float32Array(Math.ceil(length / frameSize));
+    for (let f = 0; f < energies.length; f++) {
+        const from = f * frameSize;
+        const to = Math.min(length, from + frameSize);
+        let sum = 0;
+        for (let i = from; i < to; i++) {
+            let sample = 0;
+            for (const channel of channels) sample += channel[i];
+            sample /= channels.length;
+            sum += sample * sample;
+        }
+        energies[f] = Math.sqrt(sum / Math.max(1, to - from));
+    }
+    return energies;
+};
+
+// A tenth of the way from the noise floor to loud speech
+export const silenceThreshold = (energies: Float32Array) => {
+    const sorted = Array.from(energies).sort((a, b) => a - b);
+    if (sorted.length === 0) return 0;
+    const floor = sorted[Math.floor(sorted.length * 0.1)];
+    const loud = sorted[Math.floor(sorted.length * 0.9)];
+    return floor + (loud - floor) * 0.1;
+};
+
+/**
+ * Runs of quiet frames long enough to be a pause, including leading and trailing silence.
+ */
+const detectPauses = (energies: Float32Array, duration: number): Span[] => {
+    const threshold = silenceThreshold(energies);
+    const minFrames = Math.ceil(MIN_PAUSE_SECONDS / FRAME_SECONDS);
+    const pauses: Span[] = [];
+    let runStart = -1;
+    for (let f = 0; f <= energies.length; f++) {
+        const quiet = f < energies.length && energies[f] <= threshold;
+        if (quiet && runStart < 0) runStart = f;
+        if (!quiet && runStart >= 0) {
+            const isEdge = runStart === 0 || f === energies.length;
+            if (f - runStart >= minFrames || isEdge) {
+                pauses.push({ start: runStart * FRAME_SECONDS, end: Math.min(duration, f * FRAME_SECONDS) });
+            }
+            runStart = -1;
+        }
+    }
+    return pauses;
+};
+
+/**
+ * Maps between real time and "speech time", which skips every pause.
+ */
+const createSpeechClock = (pauses: Span[], duration: number) => {
+    const segments: (Span & { from: number })[] = [];
+    let cursor = 0;
+    let speech = 0;
+    [...pauses, { start: duration, end: duration }].forEach(pause => {
+        if (pause.start > cursor) {
+            segments.push({ start: cursor, end: pause.start, from: speech });
+            speech += pause.start - cursor;
+        }
+        cursor = Math.max(cursor, pause.end);
+    });
+    if (segments.length === 0) segments.push({ start: 0, end: duration, from: 0 });
+
+    const total = Math.max(speech, 0);
+    const toSpeech = (time: number) => {
+        let result = 0;
+        for (const s of segments) {
+            if (time <= s.start) break;
+            result = s.from + Math.min(time, s.end) - s.start;
+        }
+        return result;
+    };
+    // At a pause, 'start' lands after it (where the next word begins) and 'end' before it
+    const toReal = (speechTime: number, side: 'start' | 'end') => {
+        const found = segments.find(s => side === 'start'
+            ? s.from + (s.end - s.start) > speechTime
+            : s.from + (s.end - s.start) >= speechTime);
+        const segment = found || segments[segments.length - 1];
+        return Math.min(segment.end, segment.start + Math.max(0, speechTime - segment.from));
+    };
+    return { total, toSpeech, toReal };
+};
+
+// Letters and digits, roughly proportional to how long a stretch of text takes to say
+const spokenWeight = (text: string) => Math.max(1, text.replace(/[\s\p{P}\p{S}]/gu, '').length);
+
+/**
+ * Chooses one pause (or none) per sentence boundary, in order, so that boundaries land
+ * close to where the text length predicts and on long pauses rather than short ones.
+ * Returns the chosen pause index per boundary, or -1 where none fits.
+ */
+const matchBoundaries = (expected: number[], candidates: { speech: number, length: number }[], scale: number): number[] => {
+    const k = expected.length;
+    const p = candidates.length;
+    const cost = (b: number, c: number) => {
+        const deviation = (candidates[c].speech - expected[b]) / scale;
+        return deviation * deviation + 0.5 * (1 - Math.min(1, candidates[c].length / SENTENCE_PAUSE_SECONDS));
+    };
+
+    // best[b][c]: lowest cost for the first b boundaries using only the first c pauses
+    const best = Array.from({ length: k + 1 }, () => new Float64Array(p + 1).fill(Infinity));
+    const choice = Array.from({ length: k + 1 }, () => new Int8Array(p + 1)); // 0 skip pause, 1 use pause, 2 no pause
+    for (let c = 0; c <= p; c++) best[0][c] = 0;
+    for (let b = 1; b <= k; b++) {
+        best[b][0] = best[b - 1][0] + NO_PAUSE_COST;
+        choice[b][0] = 2;
+        for (let c = 1; c <= p; c++) {
+            const skip = best[b][c - 1];
+            const use = best[b - 1][c - 1] + cost(b - 1, c - 1);
+            const none = best[b - 1][c] + NO_PAUSE_COST;
+            if (use <= skip && use <= none) {
+                best[b][c] = use;
+                choice[b][c] = 1;
+            } else if (skip <= none) {
+                best[b][c] = skip;
+                choice[b][c] = 0;
+            } else {
+                best[b][c] = none;
+                choice[b][c] = 2;
+            }
+        }
+    }
+
+    const chosen = new Array<number>(k).fill(-1);
+    let b = k;
+    let c = p;
+    while (b > 0) {
+        const step = choice[b][c];
+        if (step === 1) chosen[--b] = --c;
+        else if (step === 0) c--;
+        else b--;
+    }
+    return chosen;
+};
+
+/**
+ * Aligns article text to decoded narration samples (one array per channel).
+ */
+export const alignSamples = (channels: Float32Array[], sampleRate: number, content: string, language: Language | string): ArticleAlignment => {
+    const duration = (channels[0]?.length || 0) / sampleRate;
+    const sentences = segmentSentences(content, language).filter(s => s.segment.trim());
+    if (sentences.length === 0 || duration === 0) return { duration, sentences: [], words: [] };
+
+    const pauses = detectPauses(frameEnergies(channels, sampleRate), duration);
+    const clock = createSpeechClock(pauses, duration);
+
+    // Sentence boundaries, in speech time, if speech were spread evenly over the text
+    const weights = sentences.map(s => spokenWeight(s.segment));
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+    const expected: number[] = [];
+    let cumulative = 0;
+    weights.slice(0, -1).forEach(w => {
+        cumulative += w;
+        expected.push((cumulative / totalWeight) * clock.total);
+    });
+
+    const inner = pauses.filter(pause => pause.start > 0 && pause.end < duration);
+    const candidates = inner.map(pause => ({ speech: clock.toSpeech(pause.start), length: pause.end - pause.start }));
+    const chosen = matchBoundaries(expected, candidates, clock.total / sentences.length);
+
+    // Speech starts after the leading silence and ends before the trailing one
+    const firstStart = clock.toReal(0, 'start');
+    const lastEnd = clock.toReal(clock.total, 'end');
+    const breaks = chosen.map((c, i) => c >= 0
+        ? { end: inner[c].start, start: inner[c].end }
+        : { end: clock.toReal(expected[i], 'end'), start: clock.toReal(expected[i], 'start') });
+
+    const sentenceTimings: AudioTiming[] = [];
+    const wordTimings: AudioTiming[] = [];
+    let previousEnd = 0;
+    sentences.forEach((sentence, i) => {
+        const start = Math.max(previousEnd, i === 0 ? firstStart : breaks[i - 1].start);
+        const end = Math.max(start, i === sentences.length - 1 ? lastEnd : breaks[i].end);
+        previousEnd = end;
+        sentenceTimings.push({ offset: sentence.index, length: sentence.segment.length, start, end });
+
+        // Words share the sentence's speech time by length, so they skip its inner pauses
+        const words = segmentWords(sentence.segment, language);
+        const wordWeights = words.map(w => spokenWeight(w.segment));
+        const sentenceWeight = wordWeights.reduce((a, b) => a + b, 0);
+        const from = clock.toSpeech(start);
+        const span = Math.max(0, clock.toSpeech(end) - from);
+        let before = 0;
+        words.forEach((word, j) => {
+            const wordStart = clock.toReal(from + (before / sentenceWeight) * span, 'start');
+            before += wordWeights[j];
+            const wordEnd = clock.toReal(from + (before / sentenceWeight) * span, 'end');
+            wordTimings.push({
+                offset: sentence.index + word.index,
+                length: word.segment.length,
+                start: Math.min(Math.max(wordStart, start), end),
+                end: Math.min(Math.max(wordEnd, wordStart), end)
+            });
+        });
+    });
+
+    return { duration, sentences: sentenceTimings, words: wordTimings };
+};
+
+export const alignAudioBuffer = (buffer: AudioBuffer, content: string, language: Language | string): ArticleAlignment => {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    return alignSamples(channels, buffer.sampleRate, content, language);
+};
+
+/**
+ * Whether stored timings were measured on audio of this length.
+ */
+export const matchesAudio = (alignment: ArticleAlignment | undefined, duration: number): alignment is ArticleAlignment =>
+    !!alignment && alignment.sentences.length > 0 && Math.abs(alignment.duration - duration) < DURATION_TOLERANCE;
+
+/**
+ * The timing being spoken at `time`, if any. Timings must be sorted by start.
+ */
+export const timingAt = (timings: AudioTiming[], time: number): AudioTiming | undefined => {
+    let low = 0;
+    let high = timings.length - 1;
+    let found = -1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (timings[mid].start <= time) {
+            found = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    const timing = timings[found];
+    return timing && time < timing.end ? timing : undefined;
+};
@@ -0,0 +1,280 @@
+
+import type { SqlJsStatic } from 'sql.js';
+// The wasm that goes with the browser build sql.js resolves to
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { VocabularyItem } from "../types";
+import { toPlayableAudioFile } from "./audioService";
+import { createZip, ZipEntry } from "./zipService";
+
+export type DeckExportFormat = 'apkg' | 'csv' | 'tsv';
+
+export interface DeckExportOptions {
+    deckName: string;
+    includeAudio: boolean;
+}
+
+// --- Note Fields ---
+
+const FIELD_NAMES = [
+    'Word',
+    'Phonetic',
+    'Audio',
+    'DefinitionEN',
+    'DefinitionCN',
+    'DefinitionSource',
+    'DailyExample',
+    'AcademicExample',
+    'Context',
+    'PronunciationGuide'
+] as const;
+
+type NoteFields = Record<typeof FIELD_NAMES[number], string>;
+
+const toNoteFields = (item: VocabularyItem, audioTag: string): NoteFields => ({
+    Word: item.word,
+    Phonetic: item.phonetic,
+    Audio: audioTag,
+    DefinitionEN: item.definitionEN,
+    DefinitionCN: item.definitionCN,
+    DefinitionSource: item.definitionSource,
+    DailyExample: item.dailyExample,
+    AcademicExample: item.academicExample,
+    Context: item.contextSentence || '',
+    PronunciationGuide: item.pronunciationGuide
+});
+
+// Stable file name per item so re-exports don't duplicate media in Anki
+const audioFileName = (item: VocabularyItem, extension: string) => `linguistdaily-${item.id}.${extension}`;
+
+// --- CSV / TSV ---
+
+const SPREADSHEET_COLUMNS: (keyof VocabularyItem)[] = [
+    'word', 'phonetic', 'definitionEN', 'definitionCN', 'definitionSource',
+    'dailyExample', 'academicExample', 'contextSentence', 'pronunciationGuide'
+];
+
+const quoteCsv = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+// TSV cells can't contain tabs or newlines, so collapse them
+const cleanTsv = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+
+/**
+ * Plain spreadsheet export without audio. CSV includes a BOM so Excel detects UTF-8.
+ */
+export const exportDelimited = (vocabulary: VocabularyItem[], format: 'csv' | 'tsv'): Blob => {
+    const formatCell = format === 'csv' ? quoteCsv : cleanTsv;
+    const separator = format === 'csv' ? ',' : '\t';
+    const lines = [
+        SPREADSHEET_COLUMNS.join(separator),
+        ...vocabulary.map(item => SPREADSHEET_COLUMNS
+            .map(col => formatCell(String(item[col] ?? '')))
+            .join(separator))
+    ];
+    const bom = format === 'csv' ? '\uFEFF' : '';
+    return new Blob([bom + lines.join('\r\n')], {
+        type: format === 'csv' ? 'text/csv;charset=utf-8' : 'text/tab-separated-values;charset=utf-8'
+    });
+};
+
+// --- Anki Package ---
+
+// Fixed note type id so repeated imports reuse the same note type in Anki
+const MODEL_ID = 1718236800000;
+
+const CARD_CSS = `.card { font-family: Arial, sans-serif; font-size: 20px; text-align: center; color: #1e293b; background: #fff; }
+.word { font-size: 40px; font-weight: bold; margin: 20px 0; }
+.phonetic { font-family: monospace; color: #4f46e5; }
+.label { font-size: 12px; text-transform: uppercase; color: #94a3b8; margin-top: 16px; }
+.example { font-style: italic; }`;
+
+const FRONT_TEMPLATE = `<div class="word">{{Word}}</div>{{Audio}}`;
+
+const BACK_TEMPLATE = `{{FrontSide}}
+<hr id=answer>
+<div class="phonetic">{{Phonetic}}</div>
+<div class="label">English</div><div>{{DefinitionEN}}</div>
+<div class="label">Chinese</div><div>{{DefinitionCN}}</div>
+{{#DefinitionSource}}<div class="label">Original</div><div>{{DefinitionSource}}</div>{{/DefinitionSource}}
+{{#Context}}<div class="label">Context</div><div class="example">{{Context}}</div>{{/Context}}
+<div class="label">Daily</div><div class="example">{{DailyExample}}</div>
+<div class="label">Academic</div><div class="example">{{AcademicExample}}</div>
+{{#PronunciationGuide}}<div class="label">Pronunciation</div><div>{{PronunciationGuide}}</div>{{/PronunciationGuide}}`;
+
+const ANKI_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+// sql.js (and its bundled wasm binary) is only loaded the first time a package is exported
+const loadSqlJs = () => {
+    if (!sqlPromise) {
+        sqlPromise = import('sql.js').then(mod => mod.default({ locateFile: () => sqlWasmUrl }));
+        sqlPromise.catch(() => { sqlPromise = null; });
+    }
+    return sqlPromise;
+};
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+// Anki's duplicate check: first 8 hex digits of the SHA-1 of the sort field
+const fieldChecksum = async (value: string) => {
+    const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value));
+    const hex = Array.from(new Uint8Array(digest).slice(0, 4)).map(b => b.toString(16).padStart(2, '0')).join('');
+    return parseInt(hex, 16);
+};
+
+// Deterministic id from the deck name so exporting the same deck twice targets the same deck
+const deckIdFor = (deckName: string) => {
+    let hash = 0;
+    for (let i = 0; i < deckName.length; i++) {
+        hash = (hash * 31 + deckName.charCodeAt(i)) | 0;
+    }
+    return 1500000000000 + Math.abs(hash) % 100000000000;
+};
+
+const buildCollectionJson = (deckId: number, deckName: string, nowSec: number) => {
+    const deck = (id: number, name: string) => ({
+        id, name, desc: '', mod: nowSec, usn: -1, collapsed: false, browserCollapsed: false,
+        newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+        dyn: 0, extendNew: 10, extendRev: 50, conf: 1
+    });
+
+    const conf = {
+        activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0,
+        estTimes: true, dueCounts: true, curModel: null, nextPos: 1,
+        sortType: 'noteFld', sortBackwards: false, addToCur: true
+    };
+
+    const models = {
+        [MODEL_ID]: {
+            id: MODEL_ID,
+            name: 'LinguistDaily Vocabulary',
+            type: 0,
+            mod: nowSec,
+            usn: -1,
+            sortf: 0,
+            did: deckId,
+            tmpls: [{ name: 'Recognition', ord: 0, qfmt: FRONT_TEMPLATE, afmt: BACK_TEMPLATE, did: null, bqfmt: '', bafmt: '' }],
+            flds: FIELD_NAMES.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+            css: CARD_CSS,
+            latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+            latexPost: '\\end{document}',
+            req: [[0, 'any', [0]]],
+            tags: [],
+            vers: []
+        }
+    };
+
+    const dconf = {
+        1: {
+            id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+            new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, separate: true, order: 1, perDay: 20, bury: false },
+            lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+            rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: false }
+        }
+    };
+
+    return {
+        conf: JSON.stringify(conf),
+        models: JSON.stringify(models),
+        decks: JSON.stringify({ 1: deck(1, 'Default'), [deckId]: deck(deckId, deckName) }),
+        dconf: JSON.stringify(dconf)
+    };
+};
+
+/**
+ * Builds an Anki .apkg (schema 11 collection + media) from the vocabulary list.
+ * Cards are added as new cards; note GUIDs follow the item ids so re-importing updates notes.
+ */
+export const exportAnkiPackage = async (vocabulary: VocabularyItem[], options: DeckExportOptions): Promise<Blob> => {
+    const SQL = await loadSqlJs();
+    const db = new SQL.Database();
+
+    try {
+        const now = Date.now();
+        const nowSec = Math.floor(now / 1000);
+        const deckId = deckIdFor(options.deckName);
+        const json = buildCollectionJson(deckId, options.deckName, nowSec);
+
+        db.run(ANKI_SCHEMA);
+        db.run(
+            'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+            [nowSec, now, now, json.conf, json.models, json.decks, json.dconf, '{}']
+        );
+
+        const mediaEntries: ZipEntry[] = [];
+        const mediaMap: Record<string, string> = {};
+        const noteStmt = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+        const cardStmt = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')');
+
+        for (let i = 0; i < vocabulary.length; i++) {
+            const item = vocabulary[i];
+            let audioTag = '';
+
+            if (options.includeAudio && item.audioBase64) {
+                try {
+                    const file = toPlayableAudioFile(item.audioBase64, item.audioEncoding || 'pcm');
+                    const fileName = audioFileName(item, file.extension);
+                    // Anki stores media in the zip under numeric names, mapped by the "media" manifest
+                    const index = String(mediaEntries.length);
+                    mediaEntries.push({ name: index, data: file.data });
+                    mediaMap[index] = fileName;
+                    audioTag = `[sound:${fileName}]`;
+                } catch (e) {
+                    console.warn(`Skipping audio for "${item.word}"`, e);
+                }
+            }
+
+            const fields = toNoteFields(item, audioTag);
+            const values = FIELD_NAMES.map(name => name === 'Audio' ? fields[name] : escapeHtml(fields[name]));
+            // Ids must be unique; offset from now to keep creation order
+            const noteId = now + i;
+
+            noteStmt.run([
+                noteId,
+                item.id,
+                MODEL_ID,
+                nowSec,
+                ' linguistdaily ',
+                values.join('\x1f'),
+                fields.Word,
+                await fieldChecksum(fields.Word)
+            ]);
+            cardStmt.run([noteId, noteId, deckId, nowSec, i + 1]);
+        }
+
+        noteStmt.free();
+        cardStmt.free();
+
+        return createZip([
+            { name: 'collection.anki2', data: db.export() },
+            { name: 'media', data: JSON.stringify(mediaMap) },
+            ...mediaEntries
+        ]);
+    } finally {
+        db.close();
+    }
+};
+
+export const exportVocabularyDeck = async (
+    vocabulary: VocabularyItem[],
+    format: DeckExportFormat,
+    options: DeckExportOptions
+): Promise<Blob> => {
+    if (format === 'apkg') return exportAnkiPackage(vocabulary, options);
+    return exportDelimited(vocabulary, format);
+};
@@ -0,0 +1,67 @@
+
+// --- Audio Encoding Helpers ---
+
+// Gemini TTS returns raw 24kHz mono signed 16-bit little-endian PCM
+export const PCM_SAMPLE_RATE = 24000;
+const PCM_CHANNELS = 1;
+const PCM_BITS_PER_SAMPLE = 16;
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+    // Chunked to avoid call stack limits on large buffers
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+};
+
+/**
+ * Wraps raw Gemini PCM in a RIFF/WAVE header so it plays in any media player (and in Anki).
+ */
+export const pcmToWav = (pcm: Uint8Array, sampleRate: number = PCM_SAMPLE_RATE): Uint8Array => {
+    const blockAlign = PCM_CHANNELS * PCM_BITS_PER_SAMPLE / 8;
+    const header = new ArrayBuffer(44);
+    const view = new DataView(header);
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + pcm.length, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true); // fmt chunk size
+    view.setUint16(20, 1, true); // PCM format
+    view.setUint16(22, PCM_CHANNELS, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true); // byte rate
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, PCM_BITS_PER_SAMPLE, true);
+    writeString(36, 'data');
+    view.setUint32(40, pcm.length, true);
+
+    const wav = new Uint8Array(44 + pcm.length);
+    wav.set(new Uint8Array(header), 0);
+    wav.set(pcm, 44);
+    return wav;
+};
+
+/**
+ * Converts stored audio into a standalone file: PCM becomes WAV, MP3 is passed through.
+ */
+export const toPlayableAudioFile = (base64: string, encoding: 'pcm' | 'mp3' = 'pcm') => {
+    const bytes = base64ToBytes(base64);
+    return encoding === 'pcm'
+        ? { data: pcmToWav(bytes), extension: 'wav', mimeType: 'audio/wav' }
+        : { data: bytes, extension: 'mp3', mimeType: 'audio/mpeg' };
+};
@@ -0,0 +1,374 @@
+
+import { ApiSettings, GrammarNote, KnownWord, ShadowingRecording, VocabularyItem, WordOccurrence } from "../types";
+import { base64ToBytes, bytesToBase64 } from "./audioService";
+import { createZip, readZip, ZipEntry } from "./zipService";
+import { ensureSchedulingState } from "./srsService";
+import { itemKey, ensureLanguage, lastActivity } from "./vocabularyService";
+import { normalizeApiSettings } from "./providerService";
+import {
+    HistoryRecord,
+    loadAllArticles,
+    loadVocabulary,
+    loadSetting,
+    saveArticles,
+    saveVocabularyItems,
+    saveSetting,
+    loadKnownWords,
+    saveKnownWords,
+    loadGrammarNotes,
+    saveGrammarNotes,
+    loadAllOccurrences,
+    saveOccurrences,
+    loadAllRecordings,
+    saveRecordings,
+    replaceLearnerData
+} from "./storageService";
+
+// --- Archive Format ---
+// A backup is a ZIP containing:
+//   manifest.json            format marker, version, counts
+//   history.json             articles (without audio) + their history position
+//   vocabulary.json          vocabulary items incl. review state (without audio)
+//   known.json               words marked as known (optional, absent in older backups)
+//   grammar.json             grammar notebook incl. review state (optional, absent in older backups)
+//   occurrences.json         where saved words were seen, for their back-links (optional, absent in older backups)
+//   settings.json            ApiSettings, API keys only when explicitly included
+//   preferences.json         profile, reading, translation, voice and speed choices by setting key
+//                            (optional, absent in older backups)
+//   recordings.json          shadowing attempts without their audio, plus its mimeType
+//                            (optional, absent in older backups)
+//   audio/articles/<id>      raw narration bytes (encoding recorded on the article)
+//   audio/vocabulary/<id>    raw pronunciation bytes
+//   recordings/<id>          raw bytes of a shadowing attempt
+
+const BACKUP_FORMAT = 'linguistdaily-backup';
+const BACKUP_VERSION = 1;
+
+export type RestoreStrategy = 'merge' | 'replace';
+
+// Per-learner settings that travel with the data. Per-language ones are merged language by
+// language; the others are only restored where this device has none yet.
+const PREFERENCES: { key: string; perLanguage: boolean }[] = [
+    { key: 'learnerProfile', perLanguage: false },
+    { key: 'readingModes', perLanguage: true },
+    { key: 'translationTarget', perLanguage: false },
+    { key: 'voicePreferences', perLanguage: true },
+    { key: 'playbackRates', perLanguage: true }
+];
+
+export interface BackupOptions {
+    includeApiKeys: boolean;
+}
+
+export interface BackupManifest {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    createdAt: string;
+    counts: { articles: number; vocabulary: number; audio: number };
+    includesApiKeys: boolean;
+}
+
+export interface BackupContents {
+    manifest: BackupManifest;
+    history: HistoryRecord[];
+    vocabulary: VocabularyItem[];
+    knownWords: KnownWord[];
+    grammarNotes: GrammarNote[];
+    occurrences: WordOccurrence[];
+    recordings: ShadowingRecording[];
+    settings: ApiSettings | null;
+    preferences: Record<string, unknown>; // By setting key, see PREFERENCES
+}
+
+export interface RestoreSummary {
+    articlesAdded: number;
+    vocabularyAdded: number;
+    vocabularyUpdated: number;
+    vocabularyKept: number;
+}
+
+const articleAudioPath = (id: string) => `audio/articles/${id}`;
+const vocabularyAudioPath = (id: string) => `audio/vocabulary/${id}`;
+const recordingPath = (id: string) => `recordings/${id}`;
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const stripAudio = <T extends { audioBase64?: string }>({ audioBase64, ...rest }: T) => rest;
+
+// --- Export ---
+
+/**
+ * Packs history, vocabulary (with review state and audio) and settings into one archive.
+ */
+export const createBackup = async (options: BackupOptions): Promise<Blob> => {
+    const [history, vocabulary, knownWords, grammarNotes, occurrences, recordings, settings, preferenceValues] = await Promise.all([
+        loadAllArticles(),
+        loadVocabulary(),
+        loadKnownWords(),
+        loadGrammarNotes(),
+        loadAllOccurrences(),
+        loadAllRecordings(),
+        loadSetting<ApiSettings>('apiSettings'),
+        Promise.all(PREFERENCES.map(({ key }) => loadSetting<unknown>(key)))
+    ]);
+
+    const preferences: Record<string, unknown> = {};
+    PREFERENCES.forEach(({ key }, i) => {
+        if (preferenceValues[i] !== null) preferences[key] = preferenceValues[i];
+    });
+
+    const audioEntries: ZipEntry[] = [];
+    history.forEach(article => {
+        if (article.audioBase64) audioEntries.push({ name: articleAudioPath(article.id), data: base64ToBytes(article.audioBase64) });
+    });
+    vocabulary.forEach(item => {
+        if (item.audioBase64) audioEntries.push({ name: vocabularyAudioPath(item.id), data: base64ToBytes(item.audioBase64) });
+    });
+
+    const recordingEntries: ZipEntry[] = await Promise.all(recordings.map(async recording => ({
+        name: recordingPath(recording.id),
+        data: new Uint8Array(await recording.audio.arrayBuffer())
+    })));
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const recordingList = recordings.map(({ audio, ...recording }) => ({ ...recording, mimeType: audio.type }));
+
+    const exportedSettings = settings && !options.includeApiKeys
+        ? { ...settings, keys: {} }
+        : settings;
+
+    const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: new Date().toISOString(),
+        counts: { articles: history.length, vocabulary: vocabulary.length, audio: audioEntries.length },
+        includesApiKeys: options.includeApiKeys
+    };
+
+    return createZip([
+        { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+        { name: 'history.json', data: JSON.stringify(history.map(stripAudio)) },
+        { name: 'vocabulary.json', data: JSON.stringify(vocabulary.map(stripAudio)) },
+        { name: 'known.json', data: JSON.stringify(knownWords) },
+        { name: 'grammar.json', data: JSON.stringify(grammarNotes) },
+        { name: 'occurrences.json', data: JSON.stringify(occurrences) },
+        { name: 'settings.json', data: JSON.stringify(exportedSettings) },
+        { name: 'preferences.json', data: JSON.stringify(preferences) },
+        { name: 'recordings.json', data: JSON.stringify(recordingList) },
+        ...audioEntries,
+        ...recordingEntries
+    ]);
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireFields = (entry: Record<string, any>, fields: Record<string, 'string' | 'number'>, label: string) => {
+    for (const [field, type] of Object.entries(fields)) {
+        if (typeof entry[field] !== type) {
+            throw new Error(`${label} is missing "${field}" (${type})`);
+        }
+    }
+};
+
+const readJsonEntry = (files: Map<string, Uint8Array>, name: string): unknown => {
+    const data = files.get(name);
+    if (!data) throw new Error(`Backup is missing ${name}`);
+    try {
+        return JSON.parse(new TextDecoder().decode(data));
+    } catch {
+        throw new Error(`${name} is not valid JSON`);
+    }
+};
+
+/**
+ * Reads and validates a backup archive without touching stored data.
+ * Throws with a user-facing message when the archive does not match the schema.
+ */
+export const readBackup = async (file: Blob): Promise<BackupContents> => {
+    const files = await readZip(file);
+
+    const manifest = readJsonEntry(files, 'manifest.json');
+    if (!isObject(manifest) || manifest.format !== BACKUP_FORMAT) {
+        throw new Error("This file is not a LinguistDaily backup");
+    }
+    if (typeof manifest.version !== 'number' || manifest.version > BACKUP_VERSION) {
+        throw new Error(`Backup version ${manifest.version} is newer than this app supports`);
+    }
+
+    const rawHistory = readJsonEntry(files, 'history.json');
+    const rawVocabulary = readJsonEntry(files, 'vocabulary.json');
+    const rawSettings = files.has('settings.json') ? readJsonEntry(files, 'settings.json') : null;
+    if (!Array.isArray(rawHistory)) throw new Error("history.json must be an array");
+    if (!Array.isArray(rawVocabulary)) throw new Error("vocabulary.json must be an array");
+
+    const history = rawHistory.map((entry, i) => {
+        if (!isObject(entry)) throw new Error(`History entry ${i + 1} is not an object`);
+        requireFields(entry, { id: 'string', title: 'string', content: 'string', language: 'string', openedAt: 'number' }, `History entry ${i + 1}`);
+        const audio = files.get(articleAudioPath(entry.id));
+        return (audio ? { ...entry, audioBase64: bytesToBase64(audio) } : entry) as HistoryRecord;
+    });
+
+    const vocabulary = rawVocabulary.map((entry, i) => {
+        if (!isObject(entry)) throw new Error(`Vocabulary entry ${i + 1} is not an object`);
+        requireFields(entry, { id: 'string', word: 'string', addedAt: 'number', nextReviewAt: 'number', reviewStage: 'number' }, `Vocabulary entry ${i + 1}`);
+        const audio = files.get(vocabularyAudioPath(entry.id));
+        const item = (audio ? { ...entry, audioBase64: bytesToBase64(audio) } : entry) as VocabularyItem;
+        // Backups made before per-language decks carry no language; infer it from their history
+        return ensureLanguage(ensureSchedulingState(item), history);
+    });
+
+    const rawKnown = files.has('known.json') ? readJsonEntry(files, 'known.json') : [];
+    if (!Array.isArray(rawKnown)) throw new Error("known.json must be an array");
+    const knownWords = rawKnown.map((entry, i) => {
+        if (!isObject(entry)) throw new Error(`Known word ${i + 1} is not an object`);
+        requireFields(entry, { key: 'string', word: 'string', language: 'string', markedAt: 'number' }, `Known word ${i + 1}`);
+        return entry as KnownWord;
+    });
+
+    const rawGrammar = files.has('grammar.json') ? readJsonEntry(files, 'grammar.json') : [];
+    if (!Array.isArray(rawGrammar)) throw new Error("grammar.json must be an array");
+    const grammarNotes = rawGrammar.map((entry, i) => {
+        if (!isObject(entry)) throw new Error(`Grammar note ${i + 1} is not an object`);
+        requireFields(entry, { id: 'string', pattern: 'string', language: 'string', addedAt: 'number', nextReviewAt: 'number' }, `Grammar note ${i + 1}`);
+        return ensureSchedulingState(entry as GrammarNote);
+    });
+
+    const rawOccurrences = files.has('occurrences.json') ? readJsonEntry(files, 'occurrences.json') : [];
+    if (!Array.isArray(rawOccurrences)) throw new Error("occurrences.json must be an array");
+    const occurrences = rawOccurrences.map((entry, i) => {
+        if (!isObject(entry)) throw new Error(`Occurrence ${i + 1} is not an object`);
+        requireFields(entry, { id: 'string', wordKey: 'string', articleId: 'string', offset: 'number', sentence: 'string', seenAt: 'number' }, `Occurrence ${i + 1}`);
+        return entry as WordOccurrence;
+    });
+
+    const rawRecordings = files.has('recordings.json') ? readJsonEntry(files, 'recordings.json') : [];
+    if (!Array.isArray(rawRecordings)) throw new Error("recordings.json must be an array");
+    const recordings = rawRecordings.flatMap((entry, i): ShadowingRecording[] => {
+        if (!isObject(entry)) throw new Error(`Recording ${i + 1} is not an object`);
+        requireFields(entry, { id: 'string', articleId: 'string', offset: 'number', sentence: 'string', duration: 'number', recordedAt: 'number', mimeType: 'string' }, `Recording ${i + 1}`);
+        if (!isObject(entry.score)) throw new Error(`Recording ${i + 1} is missing "score" (object)`);
+        const audio = files.get(recordingPath(entry.id));
+        // An attempt without its audio cannot be played back or compared again
+        if (!audio) return [];
+        const { mimeType, ...recording } = entry;
+        return [{ ...recording, audio: new Blob([audio], { type: mimeType }) } as ShadowingRecording];
+    });
+
+    let settings: ApiSettings | null = null;
+    if (rawSettings !== null) {
+        if (!isObject(rawSettings) || !isObject(rawSettings.keys)) throw new Error("settings.json is malformed");
+        settings = normalizeApiSettings(rawSettings);
+    }
+
+    const rawPreferences = files.has('preferences.json') ? readJsonEntry(files, 'preferences.json') : {};
+    if (!isObject(rawPreferences)) throw new Error("preferences.json must be an object");
+    const preferences: Record<string, unknown> = {};
+    PREFERENCES.forEach(({ key, perLanguage }) => {
+        const value = rawPreferences[key];
+        if (value === undefined || value === null) return;
+        if (perLanguage && !isObject(value)) throw new Error(`preferences.json: "${key}" must be an object`);
+        preferences[key] = value;
+    });
+
+    return { manifest: manifest as BackupManifest, history, vocabulary, knownWords, grammarNotes, occurrences, recordings, settings, preferences };
+};
+
+// --- Restore ---
+
+/**
+ * Writes a validated backup into storage.
+ * - replace: takes the backup as-is in place of history/vocabulary, in one transaction so a
+ *   failed restore keeps the current data.
+ * - merge: adds unknown articles and words; for words present on both sides the one
+ *   with the most recent review/add time wins, keeping the local id.
+ * API keys are only overwritten when the backup contains them.
+ */
+export const restoreBackup = async (
+    backup: BackupContents,
+    strategy: RestoreStrategy,
+    currentVocabulary: VocabularyItem[],
+    currentSettings: ApiSettings
+): Promise<RestoreSummary> => {
+    const summary: RestoreSummary = { articlesAdded: 0, vocabularyAdded: 0, vocabularyUpdated: 0, vocabularyKept: 0 };
+
+    if (strategy === 'replace') {
+        await replaceLearnerData({
+            history: backup.history,
+            vocabulary: backup.vocabulary,
+            knownWords: backup.knownWords,
+            grammarNotes: backup.grammarNotes,
+            occurrences: backup.occurrences,
+            recordings: backup.recordings,
+            settings: backup.preferences
+        });
+        summary.articlesAdded = backup.history.length;
+        summary.vocabularyAdded = backup.vocabulary.length;
+    } else {
+        const existingArticles = new Set((await loadAllArticles()).map(a => a.id));
+        const newArticles = backup.history.filter(a => !existingArticles.has(a.id));
+        await saveArticles(newArticles);
+        summary.articlesAdded = newArticles.length;
+
+        const localByKey = new Map(currentVocabulary.map(item => [itemKey(item), item]));
+        const toSave: VocabularyItem[] = [];
+        backup.vocabulary.forEach(incoming => {
+            const local = localByKey.get(itemKey(incoming));
+            if (!local) {
+                toSave.push(incoming);
+                summary.vocabularyAdded++;
+            } else if (lastActivity(incoming) > lastActivity(local)) {
+                toSave.push({
+                    ...incoming,
+                    id: local.id,
+                    audioBase64: incoming.audioBase64 || local.audioBase64,
+                    audioEncoding: incoming.audioBase64 ? incoming.audioEncoding : local.audioEncoding
+                });
+                summary.vocabularyUpdated++;
+            } else {
+                // The local copy stays, but gains the backup's audio if it has none
+                if (!local.audioBase64 && incoming.audioBase64) {
+                    toSave.push({ ...local, audioBase64: incoming.audioBase64, audioEncoding: incoming.audioEncoding });
+                }
+                summary.vocabularyKept++;
+            }
+        });
+        await saveVocabularyItems(toSave);
+
+        // Known words only ever accumulate
+        const existingKnown = new Set((await loadKnownWords()).map(k => k.key));
+        await saveKnownWords(backup.knownWords.filter(k => !existingKnown.has(k.key)));
+
+        // Grammar notes: the copy reviewed most recently wins
+        const localNotes = new Map((await loadGrammarNotes()).map(n => [n.id, n]));
+        await saveGrammarNotes(backup.grammarNotes.filter(incoming => {
+            const local = localNotes.get(incoming.id);
+            return !local || (incoming.lastReviewedAt || 0) > (local.lastReviewedAt || 0);
+        }));
+
+        // Occurrences already recorded here keep their first sighting
+        await saveOccurrences(backup.occurrences);
+
+        // Recordings never change once made, so both copies are the same
+        await saveRecordings(backup.recordings);
+
+        for (const { key, perLanguage } of PREFERENCES) {
+            if (!(key in backup.preferences)) continue;
+            const incoming = backup.preferences[key];
+            const local = await loadSetting<unknown>(key);
+            if (local === null) await saveSetting(key, incoming);
+            else if (perLanguage && isObject(local)) await saveSetting(key, { ...(incoming as object), ...local });
+        }
+    }
+
+    if (backup.settings) {
+        const hasKeys = Object.values(backup.settings.keys).some(Boolean);
+        await saveSetting('apiSettings', {
+            ...currentSettings,
+            ...backup.settings,
+            keys: hasKeys ? { ...currentSettings.keys, ...backup.settings.keys } : currentSettings.keys
+        });
+    }
+
+    return summary;
+};
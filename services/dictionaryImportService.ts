@@ -0,0 +1,292 @@
+
+import { Language, VocabularyItem, WordDefinition } from "../types";
+import { createSchedulingState } from "./srsService";
+import { itemKey, vocabularyKey } from "./vocabularyService";
+
+// --- Types ---
+
+export type ImportFormat = 'csv' | 'tsv' | 'json' | 'txt';
+
+// Fields a source column can be mapped onto
+export type ImportField = keyof WordDefinition | 'contextSentence';
+
+export type ImportColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ParsedWordList {
+    format: ImportFormat;
+    columns: string[];
+    rows: string[][];
+    hasHeader: boolean;
+}
+
+export interface ImportPreviewRow {
+    definition: WordDefinition;
+    contextSentence?: string;
+    duplicateOf?: 'vocabulary' | 'file';
+    needsEnrichment: boolean;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+    { field: 'word', label: 'Word' },
+    { field: 'lemma', label: 'Dictionary Form' },
+    { field: 'phonetic', label: 'Phonetic' },
+    { field: 'definitionEN', label: 'English Definition' },
+    { field: 'definitionCN', label: 'Chinese Definition' },
+    { field: 'definitionSource', label: 'Original Definition' },
+    { field: 'pronunciationGuide', label: 'Pronunciation Tip' },
+    { field: 'dailyExample', label: 'Daily Example' },
+    { field: 'academicExample', label: 'Academic Example' },
+    { field: 'contextSentence', label: 'Context Sentence' }
+];
+
+// Header names (normalized) that map onto each field
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+    word: ['word', 'term', 'front', 'vocab', 'vocabulary', 'expression', 'lemma', '单词', '词'],
+    // Only reached when a separate word column already took the one above
+    lemma: ['lemma', 'dictionaryform', 'baseform', 'headword'],
+    phonetic: ['phonetic', 'ipa', 'pronunciation', 'reading', 'romaji', 'jyutping', 'pinyin', 'furigana'],
+    pronunciationGuide: ['pronunciationguide', 'tip', 'pronunciationtip'],
+    definitionEN: ['definitionen', 'definition', 'meaning', 'english', 'back', 'translation', 'gloss'],
+    definitionCN: ['definitioncn', 'chinese', '中文', '释义', '中文释义'],
+    definitionSource: ['definitionsource', 'native', 'monolingual', 'originaldefinition'],
+    dailyExample: ['dailyexample', 'example', 'sentence', 'examplesentence'],
+    academicExample: ['academicexample', 'formalexample'],
+    contextSentence: ['contextsentence', 'context']
+};
+
+// New imports are spread out so a large list doesn't come due on a single day
+const NEW_WORDS_PER_DAY = 20;
+const DAY = 24 * 60 * 60 * 1000;
+
+// --- Parsing ---
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_\-.()]/g, '');
+
+/**
+ * RFC 4180 style parser: handles quoted fields, escaped quotes and CRLF line endings.
+ */
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows
+        .map(r => r.map(cell => cell.trim()))
+        .filter(r => r.some(cell => cell !== ''));
+};
+
+const detectFormat = (fileName: string, text: string): ImportFormat => {
+    const ext = fileName.toLowerCase().split('.').pop();
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+
+    if (ext === 'json') return 'json';
+    if (ext === 'tsv' || firstLine.includes('\t')) return 'tsv';
+    if (ext === 'csv') return 'csv';
+    return 'txt';
+};
+
+const looksLikeHeader = (row: string[]) =>
+    row.some(cell => Object.values(FIELD_ALIASES).some(aliases => aliases.includes(normalizeHeader(cell))));
+
+const fromJson = (text: string): Omit<ParsedWordList, 'format'> => {
+    let data: any = JSON.parse(text);
+    // Accept { words: [...] } / { vocabulary: [...] } wrappers as well as bare arrays
+    if (!Array.isArray(data) && data && typeof data === 'object') {
+        data = data.words || data.vocabulary || data.items || [];
+    }
+    if (!Array.isArray(data)) throw new Error("JSON word list must be an array");
+
+    // Array of plain strings
+    if (data.every((entry: unknown) => typeof entry === 'string')) {
+        return { columns: ['word'], rows: data.map((w: string) => [w.trim()]).filter((r: string[]) => r[0]), hasHeader: true };
+    }
+
+    const columns: string[] = [];
+    data.forEach((entry: unknown) => {
+        if (entry && typeof entry === 'object') {
+            Object.keys(entry).forEach(key => {
+                if (!columns.includes(key)) columns.push(key);
+            });
+        }
+    });
+
+    const rows = data
+        .filter((entry: unknown) => entry && typeof entry === 'object')
+        .map((entry: Record<string, unknown>) => columns.map(col => {
+            const value = entry[col];
+            if (value === undefined || value === null) return '';
+            return typeof value === 'string' ? value.trim() : String(value);
+        }));
+
+    return { columns, rows, hasHeader: true };
+};
+
+/**
+ * Parses an uploaded word list into a uniform table of string cells.
+ * CSV/TSV header rows are detected automatically unless `hasHeader` is given.
+ */
+export const parseWordList = (fileName: string, rawText: string, hasHeader?: boolean): ParsedWordList => {
+    const text = rawText.replace(/^\uFEFF/, ''); // Strip BOM written by spreadsheet exports
+    const format = detectFormat(fileName, text);
+
+    if (format === 'json') {
+        return { format, ...fromJson(text) };
+    }
+
+    if (format === 'txt') {
+        const rows = text.split(/\r?\n/)
+            .map(line => line.trim())
+            .filter(line => line && !line.startsWith('#'))
+            .map(line => [line]);
+        return { format, columns: ['word'], rows, hasHeader: false };
+    }
+
+    const table = parseDelimited(text, format === 'tsv' ? '\t' : ',');
+    const width = table.reduce((max, r) => Math.max(max, r.length), 0);
+    const headerRow = hasHeader ?? (table.length > 0 && looksLikeHeader(table[0]));
+
+    const columns = headerRow
+        ? Array.from({ length: width }, (_, i) => table[0][i] || `Column ${i + 1}`)
+        : Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+
+    return {
+        format,
+        columns,
+        rows: headerRow ? table.slice(1) : table,
+        hasHeader: headerRow
+    };
+};
+
+/**
+ * Guesses which column feeds each field from the header names.
+ * Without a recognisable header, the first column is the word and the second the definition.
+ */
+export const guessColumnMapping = (parsed: ParsedWordList): ImportColumnMapping => {
+    const mapping: ImportColumnMapping = {};
+    const used = new Set<number>();
+
+    if (parsed.hasHeader) {
+        (Object.keys(FIELD_ALIASES) as ImportField[]).forEach(field => {
+            const index = parsed.columns.findIndex((col, i) =>
+                !used.has(i) && FIELD_ALIASES[field].includes(normalizeHeader(col)));
+            if (index >= 0) {
+                mapping[field] = index;
+                used.add(index);
+            }
+        });
+    }
+
+    if (mapping.word === undefined && parsed.columns.length > 0) {
+        mapping.word = 0;
+        if (mapping.definitionEN === undefined && parsed.columns.length > 1) {
+            mapping.definitionEN = 1;
+        }
+    }
+    return mapping;
+};
+
+// --- Preview & Merge ---
+
+export const needsEnrichment = (definition: Partial<WordDefinition>) =>
+    !definition.definitionEN && !definition.definitionCN;
+
+/**
+ * Applies the column mapping and flags duplicates against the existing vocabulary
+ * of the target language and earlier rows of the same file.
+ */
+export const buildImportPreview = (
+    parsed: ParsedWordList,
+    mapping: ImportColumnMapping,
+    vocabulary: VocabularyItem[],
+    language: Language
+): ImportPreviewRow[] => {
+    const existing = new Set(vocabulary.map(itemKey));
+    const seen = new Set<string>();
+    const cell = (row: string[], field: ImportField) => {
+        const index = mapping[field];
+        return index === undefined ? '' : (row[index] || '');
+    };
+
+    return parsed.rows
+        .filter(row => cell(row, 'word'))
+        .map(row => {
+            const definition: WordDefinition = {
+                word: cell(row, 'word'),
+                lemma: cell(row, 'lemma') || undefined,
+                phonetic: cell(row, 'phonetic'),
+                pronunciationGuide: cell(row, 'pronunciationGuide'),
+                dailyExample: cell(row, 'dailyExample'),
+                academicExample: cell(row, 'academicExample'),
+                definitionCN: cell(row, 'definitionCN'),
+                definitionEN: cell(row, 'definitionEN'),
+                definitionSource: cell(row, 'definitionSource')
+            };
+
+            const key = vocabularyKey(definition.word, language);
+            let duplicateOf: ImportPreviewRow['duplicateOf'];
+            if (existing.has(key)) duplicateOf = 'vocabulary';
+            else if (seen.has(key)) duplicateOf = 'file';
+            seen.add(key);
+
+            return {
+                definition,
+                contextSentence: cell(row, 'contextSentence') || undefined,
+                duplicateOf,
+                needsEnrichment: needsEnrichment(definition)
+            };
+        });
+};
+
+/**
+ * Turns the non-duplicate preview rows into vocabulary items with staggered review dates.
+ */
+export const createImportedItems = (rows: ImportPreviewRow[], language: Language, now: number = Date.now()): VocabularyItem[] => {
+    return rows
+        .filter(row => !row.duplicateOf)
+        .map((row, i) => {
+            const schedule = createSchedulingState(now);
+            return {
+                ...row.definition,
+                ...schedule,
+                nextReviewAt: schedule.nextReviewAt + Math.floor(i / NEW_WORDS_PER_DAY) * DAY,
+                id: crypto.randomUUID(),
+                language,
+                addedAt: now,
+                contextSentence: row.contextSentence
+            };
+        });
+};
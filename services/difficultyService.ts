@@ -0,0 +1,45 @@
+
+import { Article, ArticleDifficulty, KnownWord, Language, VocabularyItem } from "../types";
+import { segmentSentences, segmentWords } from "./textService";
+import { vocabularyKey } from "./vocabularyService";
+import { createFormMatcher, guessStem, lemmaKey } from "./lemmaService";
+
+// Keys (see `vocabularyKey`) of every word the learner has collected or marked as known
+export const knownWordKeys = (vocabulary: VocabularyItem[], knownWords: KnownWord[] = []) =>
+    new Set([...vocabulary.map(v => vocabularyKey(v.word, v.language)), ...knownWords.map(k => k.key)]);
+
+const isNumeric = (token: string) => /^[\p{N}.,]+$/u.test(token);
+
+/**
+ * Token count, vocabulary size, sentence length and coverage of an article.
+ * Numbers count as known; everything else must be in `known` or an inflected form of a
+ * word in `vocabulary`.
+ */
+export const estimateDifficulty = (
+    article: Pick<Article, 'content' | 'language'>,
+    known: Set<string>,
+    vocabulary: VocabularyItem[] = []
+): ArticleDifficulty => {
+    const language: Language = article.language;
+    const sentences = segmentSentences(article.content, language).filter(s => s.segment.trim());
+    const tokens = segmentWords(article.content, language);
+
+    const findSaved = createFormMatcher(vocabulary, language);
+    // Saved words count by their lemma; the rest by a guessed stem
+    const lemmas = new Set(tokens.map(t => {
+        const saved = findSaved(t.segment);
+        return saved ? lemmaKey(saved) : vocabularyKey(guessStem(t.segment, language), language);
+    }));
+    const knownTokens = tokens.filter(t =>
+        isNumeric(t.segment) || known.has(vocabularyKey(t.segment, language)) || !!findSaved(t.segment)
+    ).length;
+
+    return {
+        tokens: tokens.length,
+        uniqueLemmas: lemmas.size,
+        avgSentenceLength: sentences.length > 0 ? tokens.length / sentences.length : 0,
+        knownRatio: tokens.length > 0 ? knownTokens / tokens.length : 0
+    };
+};
+
+export const formatKnownRatio = (difficulty: ArticleDifficulty) => `~${Math.round(difficulty.knownRatio * 100)}% known`;
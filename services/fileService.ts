@@ -0,0 +1,20 @@
+
+// --- Browser File Helpers ---
+
+/**
+ * Triggers a browser download for an in-memory file.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Date stamp for exported file names, e.g. 2024-05-01
+export const fileDateStamp = (date: Date = new Date()) => date.toISOString().slice(0, 10);
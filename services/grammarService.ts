@@ -0,0 +1,23 @@
+
+import { GrammarNote, GrammarPoint, Language, WordSource } from "../types";
+import { createSchedulingState } from "./srsService";
+
+/**
+ * Two notes describe the same point when their patterns match (ignoring case and spacing)
+ * in the same language.
+ */
+export const grammarKey = (pattern: string, language: Language) =>
+    `${language}:${pattern.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+
+export const createGrammarNote = (point: GrammarPoint, language: Language, sentence: string, source?: WordSource): GrammarNote => ({
+    ...point,
+    ...createSchedulingState(),
+    id: crypto.randomUUID(),
+    language,
+    addedAt: Date.now(),
+    sentence,
+    sourceArticleId: source?.articleId,
+    sourceOffset: source?.offset
+});
+
+export const isDue = (note: GrammarNote, now: number = Date.now()) => note.nextReviewAt <= now;
@@ -0,0 +1,263 @@
+
+import { Language, VocabularyItem } from "../types";
+import { vocabularyKey } from "./vocabularyService";
+
+// --- Forms of a Saved Item ---
+
+/**
+ * Every spelling that refers to an item: the form it was saved as, its lemma and any
+ * variants looked up since.
+ */
+export const surfaceForms = (item: Pick<VocabularyItem, 'word' | 'lemma' | 'variants'>) => {
+    const forms = [item.word, item.lemma, ...(item.variants || [])]
+        .map(form => form?.trim())
+        .filter((form): form is string => !!form);
+    return [...new Set(forms)];
+};
+
+// Identity used to merge inflected forms into one entry; entries without a lemma use their word
+export const lemmaKey = (item: Pick<VocabularyItem, 'word' | 'lemma' | 'language'>) =>
+    vocabularyKey(item.lemma || item.word, item.language);
+
+/**
+ * The entry in `language` that already has `form` as one of its spellings.
+ */
+export const findBySurfaceForm = (vocabulary: VocabularyItem[], form: string, language: Language) => {
+    const key = vocabularyKey(form, language);
+    return vocabulary.find(item => item.language === language && surfaceForms(item).some(f => vocabularyKey(f, language) === key));
+};
+
+// --- Inflection Heuristics ---
+// Good enough to highlight forms the learner has not looked up yet; lookups themselves
+// rely on the lemma returned by the model.
+
+const HIRAGANA_ONLY = /^[\u3040-\u309F]*$/;
+const JA_VERB_ENDINGS = 'うくぐすつぬぶむるい';
+
+// Latin-script verbs: a lemma counts as a verb when it ends in one of `infinitives` (longest
+// first), and a token is one of its forms when the stem is followed by one of `suffixes`.
+// Nouns and languages without a list are only recognised by spellings already looked up.
+interface LatinInflection {
+    infinitives: string[];
+    suffixes: Set<string>;
+}
+
+const suffixes = (list: string) => new Set(list.split(' '));
+
+const LATIN_INFLECTIONS: Partial<Record<Language, LatinInflection>> = {
+    [Language.FRENCH]: {
+        infinitives: ['oir', 'er', 'ir', 're'],
+        suffixes: suffixes(
+            'e es ent ons ez é ée és ées ais ait aient ions iez ai as a âmes âtes èrent ant ' +
+            'erai eras era erons erez eront erais erait erions eriez eraient ' +
+            'eons eais eait eaient eant ea ' + // manger → mangeons
+            'is it i ie ies issons issez issent issais issait issions issiez issaient issant ' +
+            'irai iras ira irons irez iront irais irait irions iriez iraient ' +
+            's t u ue us ues rai ras ra rons rez ront rais rait rions riez raient ' +
+            'ois oit oient oyons oyez'
+        )
+    },
+    [Language.SPANISH]: {
+        infinitives: ['arse', 'erse', 'irse', 'ar', 'er', 'ir'],
+        suffixes: suffixes(
+            'o as a amos áis an es e emos éis en imos ís ' +
+            'é aste ó asteis aron í iste ió isteis ieron ' +
+            'aba abas ábamos abais aban ía ías íamos íais ían ' +
+            'aré arás ará aremos aréis arán eré erás erá eremos eréis erán iré irás irá iremos iréis irán ' +
+            'aría arías aríamos aríais arían ería erías eríamos eríais erían iría irías iríamos iríais irían ' +
+            'ando iendo ado ada ados adas ido ida idos idas'
+        )
+    },
+    [Language.ITALIAN]: {
+        infinitives: ['arsi', 'ersi', 'irsi', 'are', 'ere', 'ire'],
+        suffixes: suffixes(
+            'o i a iamo ate ete ite ano ono ' +
+            'avo avi ava avamo avate avano evo evi eva evamo evate evano ivo ivi iva ivamo ivate ivano ' +
+            'ai asti ò ammo aste arono ei esti é emmo este erono ii isti ì immo iste irono ' +
+            'erò erai erà eremo erete eranno irò irai irà iremo irete iranno ' +
+            'erei eresti erebbe eremmo ereste erebbero irei iresti irebbe iremmo ireste irebbero ' +
+            'ando endo ato ata ati uto uta uti ute ito ita iti isco isci isce iscono'
+        )
+    },
+    [Language.DUTCH]: {
+        infinitives: ['en'],
+        suffixes: suffixes(' t te ten d de den end ende')
+    },
+    // English does not mark its verbs; see `isInflecting`
+    [Language.ENGLISH]: {
+        infinitives: ['e', ''],
+        suffixes: suffixes('s es ed d ing')
+    }
+};
+
+const MIN_LATIN_STEM = 3;
+
+// Hangul syllable = initial * 588 + medial * 28 + final
+const decomposeHangul = (syllable: string) => {
+    const code = syllable.charCodeAt(0) - 0xAC00;
+    if (code < 0 || code > 11171) return null;
+    return { initial: Math.floor(code / 588), medial: Math.floor((code % 588) / 28), final: code % 28 };
+};
+
+// Vowel contractions of an open final stem syllable before -아/-어 (가+아→가, 오+아→와, 하+여→해)
+const KO_CONTRACTIONS: Record<number, number[]> = {
+    0: [0], 1: [1], 4: [4], 5: [5], 8: [9], 11: [10], 13: [14], 18: [4, 0], 20: [6]
+};
+const KO_HIEUT = 18;
+const KO_FINAL_SSANG_SIOT = 20;
+
+// Endings that may directly follow a one-syllable stem; keeps 가다 from matching 가방
+const KO_SHORT_STEM_ENDINGS = new Set('아어았었고는니다지게면서세시습을은요겠기'.split(''));
+
+/**
+ * Part of the lemma shared by its inflected forms, or null when there is none worth
+ * matching on (phrases, Cantonese, stems too short to be distinctive).
+ */
+export const inflectionStem = (lemma: string, language: Language): string | null => {
+    const base = lemma.trim().toLowerCase();
+    if (!base || /\s/.test(base)) return null;
+
+    switch (language) {
+        case Language.JAPANESE: {
+            if (base.endsWith('する') && base.length > 2) return base.slice(0, -2);
+            const stem = base.slice(0, -1);
+            if (!JA_VERB_ENDINGS.includes(base.slice(-1)) || !stem) return null;
+            // A kana-only stem like "い" would match half the text
+            return HIRAGANA_ONLY.test(stem) && stem.length < 2 ? null : stem;
+        }
+        case Language.KOREAN:
+            return base.endsWith('다') && base.length > 1 ? base.slice(0, -1) : null;
+        case Language.CANTONESE:
+            return null;
+        default: {
+            const ending = LATIN_INFLECTIONS[language]?.infinitives.find(e => base.endsWith(e) && base.length - e.length >= MIN_LATIN_STEM);
+            return ending === undefined ? null : base.slice(0, base.length - ending.length);
+        }
+    }
+};
+
+const matchesKoreanStem = (token: string, stem: string) => {
+    if (token.startsWith(stem)) {
+        const rest = token.slice(stem.length);
+        return stem.length > 1 || rest === '' || KO_SHORT_STEM_ENDINGS.has(rest[0]);
+    }
+    // Contracted last syllable: 하 → 해/했, 오 → 와/왔, 가 → 갔
+    const head = stem.slice(0, -1);
+    if (!token.startsWith(head) || token.length <= head.length) return false;
+    const last = decomposeHangul(stem.slice(-1));
+    const actual = decomposeHangul(token[head.length]);
+    if (!last || !actual || last.final !== 0 || last.initial !== actual.initial) return false;
+    if (actual.final !== 0 && actual.final !== KO_FINAL_SSANG_SIOT) return false;
+    const vowels = last.initial === KO_HIEUT && last.medial === 0 ? [1] : KO_CONTRACTIONS[last.medial] || [];
+    return vowels.includes(actual.medial);
+};
+
+/**
+ * Whether `token` looks like an inflected form built on `stem` (see `inflectionStem`).
+ */
+export const matchesInflection = (token: string, stem: string, language: Language) => {
+    const form = token.trim().toLowerCase();
+    switch (language) {
+        case Language.JAPANESE:
+            // Conjugations and auxiliaries are kana after the stem (食べ, 食べた, 食べない)
+            return form.startsWith(stem) && HIRAGANA_ONLY.test(form.slice(stem.length));
+        case Language.KOREAN:
+            return matchesKoreanStem(form, stem);
+        default:
+            return form.startsWith(stem) && !!LATIN_INFLECTIONS[language]?.suffixes.has(form.slice(stem.length));
+    }
+};
+
+/**
+ * Rough stand-in for the lemma of a word nobody has looked up: the token with its longest
+ * listed ending removed, so mange and mangeons count once. Only used for counting.
+ */
+export const guessStem = (token: string, language: Language) => {
+    const form = token.trim().toLowerCase();
+    const ending = [...(LATIN_INFLECTIONS[language]?.suffixes || [])]
+        .filter(suffix => form.endsWith(suffix) && form.length - suffix.length >= MIN_LATIN_STEM)
+        .sort((a, b) => b.length - a.length)[0];
+    return ending ? form.slice(0, form.length - ending.length) : form;
+};
+
+// In English every lemma looks like a verb, so only entries saved as an inflected form
+// (walked → walk) are taken to inflect
+const isInflecting = (item: VocabularyItem, language: Language) =>
+    language !== Language.ENGLISH || (!!item.lemma && vocabularyKey(item.lemma, language) !== vocabularyKey(item.word, language));
+
+/**
+ * Lookup from a word token to the saved item it is a form of. Exact spellings win over
+ * inflection matches, and longer stems over shorter ones. Results are cached, so build
+ * one matcher per vocabulary snapshot.
+ */
+export const createFormMatcher = (vocabulary: VocabularyItem[], language: Language) => {
+    const deck = vocabulary.filter(item => item.language === language);
+
+    const exact = new Map<string, VocabularyItem>();
+    deck.forEach(item => surfaceForms(item).forEach(form => {
+        const key = vocabularyKey(form, language);
+        if (!exact.has(key)) exact.set(key, item);
+    }));
+
+    const stems = deck
+        .filter(item => isInflecting(item, language))
+        .map(item => ({ item, stem: inflectionStem(item.lemma || item.word, language) }))
+        .filter((entry): entry is { item: VocabularyItem, stem: string } => !!entry.stem)
+        .sort((a, b) => b.stem.length - a.stem.length);
+
+    const cache = new Map<string, VocabularyItem | null>();
+    return (token: string): VocabularyItem | undefined => {
+        const key = vocabularyKey(token, language);
+        if (!cache.has(key)) {
+            const found = exact.get(key) || stems.find(entry => matchesInflection(token, entry.stem, language))?.item;
+            cache.set(key, found || null);
+        }
+        return cache.get(key) || undefined;
+    };
+};
+
+// --- Entries Saved Separately ---
+
+export interface FormMerge {
+    item: VocabularyItem; // Kept entry, with the spellings of the others as variants
+    absorbed: VocabularyItem[]; // Entries to remove
+}
+
+/**
+ * Entries of the same word saved before forms were merged on lookup (mangé and manger),
+ * found by a shared spelling or lemma. The oldest entry of each group keeps its schedule.
+ * Entries saved without a lemma are only merged by an exact spelling.
+ */
+export const findSeparateForms = (vocabulary: VocabularyItem[]): FormMerge[] => {
+    const parent = vocabulary.map((_, i) => i);
+    const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+
+    const firstWithForm = new Map<string, number>();
+    vocabulary.forEach((item, i) => surfaceForms(item).forEach(form => {
+        const key = vocabularyKey(form, item.language);
+        const other = firstWithForm.get(key);
+        if (other === undefined) firstWithForm.set(key, i);
+        else parent[root(i)] = root(other);
+    }));
+
+    const groups = new Map<number, VocabularyItem[]>();
+    vocabulary.forEach((item, i) => groups.set(root(i), [...(groups.get(root(i)) || []), item]));
+
+    return [...groups.values()]
+        .filter(group => group.length > 1)
+        .map(group => {
+            const [kept, ...absorbed] = [...group].sort((a, b) => a.addedAt - b.addedAt);
+            const withAudio = group.find(item => item.audioBase64);
+            const lemma = kept.lemma || absorbed.find(other => other.lemma)?.lemma;
+            const named = new Set([kept.word, lemma].filter(Boolean).map(form => vocabularyKey(form!, kept.language)));
+            const item: VocabularyItem = {
+                ...kept,
+                lemma,
+                variants: surfaceForms({ word: kept.word, variants: group.flatMap(surfaceForms) })
+                    .filter(form => !named.has(vocabularyKey(form, kept.language))),
+                audioBase64: kept.audioBase64 || withAudio?.audioBase64,
+                audioEncoding: kept.audioBase64 ? kept.audioEncoding : withAudio?.audioEncoding
+            };
+            return { item, absorbed };
+        });
+};
@@ -0,0 +1,231 @@
+
+import { ApiSettings, ArticleAlignment, AudioTiming, Language, NarrationVoice, VoicePreference } from "../types";
+import { generateSpeech, isQuotaError, ProviderUnavailableError, SpeechResult } from "./aiService";
+import { base64ToBytes, bytesToBase64, PCM_SAMPLE_RATE } from "./audioService";
+import { alignSamples } from "./alignmentService";
+import { segmentSentences, segmentWords } from "./textService";
+
+// --- Chunked Narration ---
+// Articles are narrated sentence by sentence: every request stays far below provider input
+// limits, a failed sentence is retried on its own, and the first sentences can be played
+// while the rest are still being generated. The pieces are stitched into one 24kHz PCM
+// timeline whose sentence boundaries are known exactly.
+
+const MAX_CHUNK_CHARS = 500; // Longer sentences are split between words
+const NARRATION_CONCURRENCY = 3;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+// Silence put between pieces, since each one is trimmed by the TTS
+const SENTENCE_GAP_SECONDS = 0.25;
+const PARAGRAPH_GAP_SECONDS = 0.7;
+
+export interface NarrationChunk {
+    offset: number; // In the article content
+    text: string;
+}
+
+// The narration generated so far, as one timeline from the first sentence on
+export interface NarrationStream {
+    samples: Float32Array;
+    sampleRate: number;
+    alignment: ArticleAlignment; // Timings of the narrated part
+    voice: VoicePreference; // As requested, for retrying with the same one
+    chunksReady: number;
+    chunksTotal: number;
+    done: boolean;
+    failed?: boolean; // A chunk could not be generated; the stream stops before it
+    resume?: NarrationResume; // Set when failed
+}
+
+// Pieces narrated before a failure, by chunk
+export interface NarrationResume {
+    content: string;
+    pieces: NarratedPiece[];
+}
+
+export interface Narration {
+    audioBase64: string;
+    audioEncoding: 'pcm';
+    alignment: ArticleAlignment;
+    narrationVoice: NarrationVoice;
+}
+
+interface NarratedPiece {
+    samples: Float32Array;
+    alignment: ArticleAlignment; // Relative to the piece
+    voice: NarrationVoice;
+}
+
+/**
+ * The pieces an article is narrated in: its sentences, with overly long ones split.
+ */
+export const planNarration = (content: string, language: Language | string): NarrationChunk[] => {
+    const chunks: NarrationChunk[] = [];
+    segmentSentences(content, language).forEach(({ segment, index }) => {
+        const text = segment.trim();
+        if (!text) return;
+        const offset = index + segment.indexOf(text);
+        if (text.length <= MAX_CHUNK_CHARS) {
+            chunks.push({ offset, text });
+            return;
+        }
+        let start = 0;
+        let end = 0;
+        segmentWords(text, language).forEach(word => {
+            const wordEnd = word.index + word.segment.length;
+            if (wordEnd - start > MAX_CHUNK_CHARS && end > start) {
+                chunks.push({ offset: offset + start, text: text.slice(start, end) });
+                start = word.index;
+            }
+            end = wordEnd;
+        });
+        chunks.push({ offset: offset + start, text: text.slice(start) });
+    });
+    return chunks;
+};
+
+/**
+ * Decodes one TTS reply to mono samples at PCM_SAMPLE_RATE, whatever the provider returned.
+ */
+const decodeSpeech = async ({ audioData, encoding }: SpeechResult): Promise<Float32Array> => {
+    const bytes = base64ToBytes(audioData);
+    if (encoding === 'pcm') {
+        const pcm = new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+        return Float32Array.from(pcm, sample => sample / 32768);
+    }
+    // MP3 and the like are decoded (and resampled) by the browser
+    const buffer = await new OfflineAudioContext(1, 1, PCM_SAMPLE_RATE).decodeAudioData(bytes.buffer as ArrayBuffer);
+    const mono = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const channel = buffer.getChannelData(c);
+        for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+    }
+    return mono;
+};
+
+const encodePcm = (samples: Float32Array): string => {
+    const pcm = Int16Array.from(samples, sample => Math.max(-32768, Math.min(32767, Math.round(sample * 32768))));
+    return bytesToBase64(new Uint8Array(pcm.buffer));
+};
+
+const narrateChunk = async (chunk: NarrationChunk, language: Language, settings: ApiSettings, voice: VoicePreference): Promise<NarratedPiece> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const speech = await generateSpeech(chunk.text, language, settings, voice);
+            const samples = await decodeSpeech(speech);
+            return { samples, alignment: alignSamples([samples], PCM_SAMPLE_RATE, chunk.text, language), voice: speech.voice };
+        } catch (e) {
+            // Without a speech provider or quota, asking again only wastes time
+            if (attempt >= MAX_ATTEMPTS || e instanceof ProviderUnavailableError || isQuotaError(e)) throw e;
+            console.warn(`Narrating "${chunk.text.slice(0, 30)}..." failed, retrying`, e);
+            await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+        }
+    }
+};
+
+/**
+ * The timeline pieces are appended to in order, with their timings shifted to match.
+ * Samples grow into spare capacity, so each piece is copied about once.
+ */
+const createTimeline = (content: string, chunks: NarrationChunk[]) => {
+    let samples = new Float32Array(0);
+    let length = 0;
+    const sentences: AudioTiming[] = [];
+    const words: AudioTiming[] = [];
+
+    const gapBefore = (i: number) => {
+        if (i === 0) return 0;
+        const previous = chunks[i - 1];
+        const between = content.slice(previous.offset + previous.text.length, chunks[i].offset);
+        return Math.round((between.includes('\n') ? PARAGRAPH_GAP_SECONDS : SENTENCE_GAP_SECONDS) * PCM_SAMPLE_RATE);
+    };
+
+    const append = (piece: NarratedPiece, i: number) => {
+        const position = length + gapBefore(i);
+        const end = position + piece.samples.length;
+        if (end > samples.length) {
+            const grown = new Float32Array(Math.max(end, samples.length * 2));
+            grown.set(samples.subarray(0, length));
+            samples = grown;
+        }
+        samples.set(piece.samples, position);
+        length = end;
+
+        const start = position / PCM_SAMPLE_RATE;
+        const shift = (timing: AudioTiming) => ({
+            offset: timing.offset + chunks[i].offset,
+            length: timing.length,
+            start: timing.start + start,
+            end: timing.end + start
+        });
+        sentences.push(...piece.alignment.sentences.map(shift));
+        words.push(...piece.alignment.words.map(shift));
+    };
+
+    // Later appends only write past `length`, so earlier snapshots stay valid
+    const snapshot = () => ({
+        samples: samples.subarray(0, length),
+        alignment: { duration: length / PCM_SAMPLE_RATE, sentences: sentences.slice(), words: words.slice() }
+    });
+
+    return { append, snapshot };
+};
+
+/**
+ * Narrates an article a few sentences at a time. `onProgress` receives the playable
+ * start of the narration whenever it grows, and once more when finished or failed.
+ * A failed stream carries what was narrated; pass it as `resume` to continue from there.
+ */
+export const synthesizeNarration = async (
+    content: string,
+    language: Language,
+    settings: ApiSettings,
+    voice: VoicePreference,
+    onProgress: (stream: NarrationStream) => void,
+    resume?: NarrationResume
+): Promise<Narration> => {
+    const chunks = planNarration(content, language);
+    if (chunks.length === 0) throw new Error("The article has no text to narrate");
+
+    const pieces: NarratedPiece[] = resume?.content === content ? resume.pieces.slice() : new Array(chunks.length);
+    const timeline = createTimeline(content, chunks);
+    let ready = 0; // Leading chunks that are all narrated, and on the timeline
+    let next = 0;
+    let failure: unknown = null;
+
+    const advance = () => {
+        while (ready < chunks.length && pieces[ready]) timeline.append(pieces[ready], ready++);
+    };
+    const report = (extra: Pick<NarrationStream, 'done' | 'failed' | 'resume'>) => {
+        const snapshot = timeline.snapshot();
+        onProgress({ ...snapshot, sampleRate: PCM_SAMPLE_RATE, voice, chunksReady: ready, chunksTotal: chunks.length, ...extra });
+        return snapshot;
+    };
+    advance();
+    report({ done: false });
+
+    const worker = async () => {
+        while (next < chunks.length && !failure) {
+            const i = next++;
+            if (pieces[i]) continue;
+            try {
+                pieces[i] = await narrateChunk(chunks[i], language, settings, voice);
+            } catch (e) {
+                failure = failure || e;
+                return;
+            }
+            if (i !== ready) continue;
+            advance();
+            if (ready < chunks.length) report({ done: false });
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(NARRATION_CONCURRENCY, chunks.length) }, worker));
+
+    if (failure) {
+        report({ done: false, failed: true, resume: { content, pieces } });
+        throw failure;
+    }
+    const { samples, alignment } = report({ done: true });
+    // Fallbacks may have voiced a few sentences differently; the opening sentence names the voice
+    return { audioBase64: encodePcm(samples), audioEncoding: 'pcm', alignment, narrationVoice: pieces[0].voice };
+};
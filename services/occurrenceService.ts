@@ -0,0 +1,46 @@
+
+import { Article, VocabularyItem, WordOccurrence } from "../types";
+import { segmentSentences, segmentWords } from "./textService";
+import { itemKey } from "./vocabularyService";
+import { createFormMatcher } from "./lemmaService";
+
+export const occurrenceId = (wordKey: string, articleId: string, offset: number) => `${wordKey}|${articleId}|${offset}`;
+
+/**
+ * Every sentence of `article` that contains one of `items`. Single words match whole
+ * word tokens in any inflected form; phrases match anywhere in the sentence, case-insensitively.
+ */
+export const findOccurrences = (article: Article, items: VocabularyItem[], seenAt: number = Date.now()): WordOccurrence[] => {
+    const deck = items.filter(item => item.language === article.language);
+    if (deck.length === 0) return [];
+
+    const phrases = deck.filter(item => segmentWords(item.word, article.language).length > 1);
+    const findWord = createFormMatcher(deck.filter(item => !phrases.includes(item)), article.language);
+
+    const occurrences: WordOccurrence[] = [];
+    segmentSentences(article.content, article.language).forEach(({ segment, index }) => {
+        const sentence = segment.trim();
+        if (!sentence) return;
+        const offset = index + segment.indexOf(sentence);
+
+        const found = new Set<string>();
+        segmentWords(segment, article.language).forEach(token => {
+            const item = findWord(token.segment);
+            if (item) found.add(itemKey(item));
+        });
+        const lower = sentence.toLowerCase();
+        phrases.forEach(item => {
+            if (lower.includes(item.word.trim().toLowerCase())) found.add(itemKey(item));
+        });
+
+        found.forEach(wordKey => occurrences.push({
+            id: occurrenceId(wordKey, article.id, offset),
+            wordKey,
+            articleId: article.id,
+            offset,
+            sentence,
+            seenAt
+        }));
+    });
+    return occurrences;
+};
@@ -0,0 +1,36 @@
+
+import { Article, CefrLevel, Language, LearnerProfile, VocabularyItem } from "../types";
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+// Matches the level the article prompts always used
+export const DEFAULT_LEVEL: CefrLevel = 'B2';
+
+export const isActiveLanguage = (profile: LearnerProfile, language: Language) =>
+    profile.studyLanguages.some(s => s.language === language);
+
+export const levelFor = (profile: LearnerProfile, language: Language): CefrLevel =>
+    profile.studyLanguages.find(s => s.language === language)?.level || DEFAULT_LEVEL;
+
+/**
+ * Active languages first (in profile order), then the rest in their usual order.
+ */
+export const orderLanguages = (profile: LearnerProfile): Language[] => {
+    const active = profile.studyLanguages.map(s => s.language);
+    return [...active, ...Object.values(Language).filter(l => !active.includes(l))];
+};
+
+/**
+ * First-run profile: whatever the learner has already been reading or collecting,
+ * most used first. New learners start empty and pick languages themselves.
+ */
+export const createDefaultProfile = (history: Pick<Article, 'language'>[], vocabulary: Pick<VocabularyItem, 'language'>[]): LearnerProfile => {
+    const usage = new Map<Language, number>();
+    [...history, ...vocabulary].forEach(({ language }) => {
+        if (language) usage.set(language, (usage.get(language) || 0) + 1);
+    });
+    const studyLanguages = [...usage.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([language]) => ({ language, level: DEFAULT_LEVEL }));
+    return { studyLanguages };
+};
@@ -0,0 +1,82 @@
+
+import { ApiProvider, ApiSettings, FallbackErrorClass } from "../types";
+
+// --- Built-in Providers ---
+
+export const DEFAULT_PROVIDERS: ApiProvider[] = [
+    { id: 'gemini', kind: 'gemini', name: 'Gemini', enabled: true, model: 'gemini-2.5-flash', ttsModel: 'gemini-2.5-flash-preview-tts' },
+    { id: 'openai', kind: 'openai-compatible', name: 'OpenAI', enabled: true, model: 'gpt-4o-mini', ttsModel: 'tts-1', baseUrl: 'https://api.openai.com/v1' },
+    { id: 'deepseek', kind: 'openai-compatible', name: 'DeepSeek', enabled: true, model: 'deepseek-chat', baseUrl: 'https://api.deepseek.com' }
+];
+
+export const BUILT_IN_PROVIDER_IDS = DEFAULT_PROVIDERS.map(p => p.id);
+
+export const DEFAULT_FALLBACK: Record<FallbackErrorClass, boolean> = {
+    quota: true,
+    network: true,
+    malformed: true
+};
+
+// Starting points for local or self-hosted OpenAI-compatible servers
+export const PROVIDER_PRESETS: Omit<ApiProvider, 'id'>[] = [
+    { kind: 'openai-compatible', name: 'Ollama', enabled: true, model: 'llama3.1', baseUrl: 'http://localhost:11434/v1' },
+    { kind: 'openai-compatible', name: 'LM Studio', enabled: true, model: 'local-model', baseUrl: 'http://localhost:1234/v1' },
+    { kind: 'openai-compatible', name: 'Custom', enabled: true, model: '', baseUrl: 'https://' }
+];
+
+export const createProvider = (preset: Omit<ApiProvider, 'id'>): ApiProvider => ({
+    ...preset,
+    id: `custom-${crypto.randomUUID()}`
+});
+
+export const createDefaultApiSettings = (): ApiSettings => ({
+    providers: DEFAULT_PROVIDERS.map(p => ({ ...p })),
+    fallbackOn: { ...DEFAULT_FALLBACK },
+    keys: {}
+});
+
+// Keys injected at build time for the built-in providers
+export const envKeyFor = (providerId: string): string | undefined => {
+    switch (providerId) {
+        case 'gemini': return process.env.API_KEY;
+        case 'openai': return process.env.OPENAI_API_KEY;
+        case 'deepseek': return process.env.DEEPSEEK_API_KEY;
+        default: return undefined;
+    }
+};
+
+// Hosted built-ins reject anonymous calls; custom endpoints may be keyless local servers
+export const requiresApiKey = (provider: ApiProvider) => BUILT_IN_PROVIDER_IDS.includes(provider.id);
+
+export const resolveApiKey = (provider: ApiProvider, settings: ApiSettings) =>
+    settings.keys[provider.id] || envKeyFor(provider.id);
+
+/**
+ * Enabled providers in the order they should be tried.
+ */
+export const getProviderChain = (settings: ApiSettings) => settings.providers.filter(p => p.enabled);
+
+/**
+ * Accepts settings in any stored shape and returns the current one.
+ * Settings saved before the provider chain existed had a fixed Gemini primary and a
+ * single `backup`; that order is kept and the remaining built-ins follow.
+ */
+export const normalizeApiSettings = (raw: any): ApiSettings => {
+    const keys = raw?.keys && typeof raw.keys === 'object' ? raw.keys : {};
+
+    if (Array.isArray(raw?.providers)) {
+        return {
+            providers: raw.providers,
+            fallbackOn: { ...DEFAULT_FALLBACK, ...raw.fallbackOn },
+            keys
+        };
+    }
+
+    const legacyOrder = ['gemini', raw?.backup].filter(Boolean) as string[];
+    const providers = [
+        ...legacyOrder.map(id => DEFAULT_PROVIDERS.find(p => p.id === id)).filter((p): p is ApiProvider => !!p),
+        ...DEFAULT_PROVIDERS.filter(p => !legacyOrder.includes(p.id))
+    ].map(p => ({ ...p }));
+
+    return { providers, fallbackOn: { ...DEFAULT_FALLBACK }, keys };
+};
@@ -0,0 +1,95 @@
+
+import { Language, ReadingAnnotation, ReadingMode } from "../types";
+import { ReadingResponse } from "./responseSchema";
+
+const READING_SYSTEMS: Partial<Record<Language, string>> = {
+    [Language.JAPANESE]: 'Furigana',
+    [Language.CANTONESE]: 'Jyutping'
+};
+
+export const READING_MODES: { mode: ReadingMode, label: string }[] = [
+    { mode: 'on', label: 'On' },
+    { mode: 'unknown', label: 'Unknown only' },
+    { mode: 'off', label: 'Off' }
+];
+
+export const DEFAULT_READING_MODE: ReadingMode = 'on';
+
+/**
+ * Name of the reading aid for a language, or undefined when its script needs none.
+ */
+export const readingSystem = (language: Language) => READING_SYSTEMS[language];
+
+const HAN = /\p{Script=Han}/u;
+const KANA = /^[\u3040-\u30FF]$/;
+
+/**
+ * Whether a text contains characters the reading aid is for (kanji, hanzi).
+ */
+export const needsReadings = (text: string, language: Language) => !!readingSystem(language) && HAN.test(text);
+
+// 食べる/たべる → 食/た: okurigana is already readable, so the ruby covers the kanji only
+const trimKana = (pair: ReadingResponse): ReadingResponse & { lead: number } => {
+    let { text, reading } = pair;
+    let lead = 0;
+    while (text.length > 1 && reading.length > 1 && KANA.test(text[text.length - 1]) && text[text.length - 1] === reading[reading.length - 1]) {
+        text = text.slice(0, -1);
+        reading = reading.slice(0, -1);
+    }
+    while (text.length > 1 && reading.length > 1 && KANA.test(text[0]) && text[0] === reading[0]) {
+        text = text.slice(1);
+        reading = reading.slice(1);
+        lead++;
+    }
+    return { text, reading, lead };
+};
+
+/**
+ * Places readings listed in order of appearance onto the article. Words the model
+ * misquoted are skipped rather than guessed at, and words without kanji/hanzi are dropped.
+ */
+export const alignReadings = (content: string, pairs: ReadingResponse[], language: Language): ReadingAnnotation[] => {
+    const annotations: ReadingAnnotation[] = [];
+    let cursor = 0;
+    pairs.forEach(pair => {
+        const text = pair.text.trim();
+        const reading = pair.reading.trim();
+        if (!text || !reading || !HAN.test(text)) return;
+
+        const found = content.indexOf(text, cursor);
+        if (found < 0) return;
+        cursor = found + text.length;
+
+        const trimmed = language === Language.JAPANESE ? trimKana({ text, reading }) : { text, reading, lead: 0 };
+        annotations.push({ offset: found + trimmed.lead, length: trimmed.text.length, reading: trimmed.reading });
+    });
+    return annotations;
+};
+
+export interface ReadingPiece {
+    text: string;
+    reading?: string;
+}
+
+/**
+ * Splits a token into plain and annotated pieces. An annotation that runs past the
+ * token (the word segmenter split differently) is clipped to it and keeps its full reading.
+ */
+export const readingPieces = (segment: string, index: number, byOffset: Map<number, ReadingAnnotation>): ReadingPiece[] => {
+    const pieces: ReadingPiece[] = [];
+    let plainStart = 0;
+    let i = 0;
+    while (i < segment.length) {
+        const annotation = byOffset.get(index + i);
+        if (!annotation) {
+            i++;
+            continue;
+        }
+        if (i > plainStart) pieces.push({ text: segment.slice(plainStart, i) });
+        const end = Math.min(segment.length, i + annotation.length);
+        pieces.push({ text: segment.slice(i, end), reading: annotation.reading });
+        i = plainStart = end;
+    }
+    if (plainStart < segment.length) pieces.push({ text: segment.slice(plainStart) });
+    return pieces;
+};
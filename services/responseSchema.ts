@@ -0,0 +1,372 @@
+
+import { WordDefinition } from "../types";
+
+// --- Response Types ---
+
+export interface NewsResponse {
+    title: string;
+    content: string;
+    sourceUrl?: string;
+    audioUrl?: string;
+}
+
+export interface ArticleResponse {
+    title: string;
+    content: string;
+}
+
+// Translation of the numbered sentence `index` from the prompt
+export interface TranslationResponse {
+    index: number;
+    translation: string;
+}
+
+// One grammar point found in a sentence; `level` is a CEFR level as text
+export interface GrammarPointResponse {
+    pattern: string;
+    explanation: string;
+    examples: string[];
+    level: string;
+}
+
+// A word and its reading (furigana, Jyutping), in order of appearance
+export interface ReadingResponse {
+    text: string;
+    reading: string;
+}
+
+// --- Schema Definition ---
+// Minimal typed schemas for what we ask LLMs to return. Validation is lenient on purpose:
+// anything with an obvious fix is repaired (and reported), the rest becomes an error that
+// the caller can send back to the model as a corrective prompt.
+
+export type FieldType = 'string' | 'number' | 'string[]' | 'url';
+
+export interface FieldSpec {
+    type: FieldType;
+    required?: boolean; // Must be present and non-empty after repair
+}
+
+export interface ValidationReport {
+    repairs: string[];
+    errors: string[];
+}
+
+export interface ResponseSchema<T> {
+    name: string;
+    /** JSON template shown to the model when asking it to correct a reply */
+    template: () => unknown;
+    validate: (value: unknown, report: ValidationReport, path: string) => T | undefined;
+}
+
+// `value` is only set when `errors` is empty
+export interface ParseResult<T> extends ValidationReport {
+    value?: T;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// "definition_cn", "DefinitionCN" and "definitionCn" all name the same field
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const coerceField = (raw: unknown, spec: FieldSpec, path: string, report: ValidationReport): unknown => {
+    if (raw === undefined || raw === null) return undefined;
+
+    switch (spec.type) {
+        case 'string':
+        case 'url': {
+            let text: string | undefined;
+            if (typeof raw === 'string') text = raw;
+            else if (typeof raw === 'number' || typeof raw === 'boolean') text = String(raw);
+            else if (Array.isArray(raw) && raw.every(v => typeof v === 'string')) text = raw.join(', ');
+            else if (isObject(raw)) {
+                // e.g. {"text": "..."} where a plain string was asked for
+                const strings = Object.values(raw).filter((v): v is string => typeof v === 'string');
+                if (strings.length === 1) text = strings[0];
+            }
+            if (text === undefined) {
+                report.errors.push(`${path} must be a string`);
+                return undefined;
+            }
+            if (typeof raw !== 'string') report.repairs.push(`${path} converted to string`);
+            text = text.trim();
+            if (spec.type === 'url' && text && !/^https?:\/\//i.test(text)) {
+                report.repairs.push(`${path} dropped (not a URL)`);
+                return '';
+            }
+            return text;
+        }
+        case 'number': {
+            const n = typeof raw === 'number' ? raw : Number(String(raw).trim());
+            if (!Number.isFinite(n)) {
+                report.errors.push(`${path} must be a number`);
+                return undefined;
+            }
+            if (typeof raw !== 'number') report.repairs.push(`${path} converted to number`);
+            return n;
+        }
+        case 'string[]': {
+            if (typeof raw === 'string') {
+                report.repairs.push(`${path} wrapped in an array`);
+                return raw.trim() ? [raw.trim()] : [];
+            }
+            if (!Array.isArray(raw)) {
+                report.errors.push(`${path} must be an array of strings`);
+                return undefined;
+            }
+            const items = raw
+                .map(v => (typeof v === 'string' ? v : typeof v === 'number' ? String(v) : null))
+                .filter((v): v is string => v !== null)
+                .map(v => v.trim())
+                .filter(Boolean);
+            if (items.length !== raw.length) report.repairs.push(`${path} dropped non-string entries`);
+            return items;
+        }
+    }
+};
+
+const emptyValue = (type: FieldType) => (type === 'string[]' ? [] : type === 'number' ? undefined : '');
+
+const isEmpty = (value: unknown) =>
+    value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Schema for a flat JSON object. `check` can add cross-field rules and returns an error message.
+ */
+export const objectSchema = <T>(
+    name: string,
+    fields: { [K in keyof T]-?: FieldSpec },
+    check?: (value: T) => string | null
+): ResponseSchema<T> => {
+    const entries = Object.entries(fields) as [string, FieldSpec][];
+
+    return {
+        name,
+        template: () => Object.fromEntries(entries.map(([key, spec]) => [key, spec.type === 'string[]' ? ['string'] : spec.type])),
+        validate: (value, report, path) => {
+            let source = value;
+            if (Array.isArray(source) && source.length === 1 && isObject(source[0])) {
+                report.repairs.push(`${path} unwrapped from a one-element array`);
+                source = source[0];
+            }
+            if (isObject(source)) {
+                // {"article": {...}} when the fields were asked for at the top level
+                const keys = Object.keys(source).map(normalizeKey);
+                const hasAnyField = entries.some(([key]) => keys.includes(normalizeKey(key)));
+                const values = Object.values(source);
+                if (!hasAnyField && values.length === 1 && isObject(values[0])) {
+                    report.repairs.push(`${path} unwrapped from "${Object.keys(source)[0]}"`);
+                    source = values[0];
+                }
+            }
+            if (!isObject(source)) {
+                report.errors.push(`${path} must be a JSON object`);
+                return undefined;
+            }
+
+            const byKey = new Map(Object.entries(source).map(([key, v]) => [normalizeKey(key), { key, v }]));
+            const result: Record<string, unknown> = {};
+            const errorsBefore = report.errors.length;
+
+            entries.forEach(([key, spec]) => {
+                const found = key in source ? { key, v: source[key] } : byKey.get(normalizeKey(key));
+                if (found && found.key !== key) report.repairs.push(`${path}.${key} read from "${found.key}"`);
+
+                const fieldPath = `${path}.${key}`;
+                const fieldReport: ValidationReport = { repairs: [], errors: [] };
+                let coerced = coerceField(found?.v, spec, fieldPath, fieldReport);
+                report.repairs.push(...fieldReport.repairs);
+                if (fieldReport.errors.length > 0) {
+                    // A broken optional field is not worth a retry; drop it
+                    if (spec.required) report.errors.push(...fieldReport.errors);
+                    else report.repairs.push(`${fieldPath} dropped (${fieldReport.errors.join('; ')})`);
+                }
+                if (isEmpty(coerced)) {
+                    if (spec.required) {
+                        if (fieldReport.errors.length === 0) report.errors.push(`${fieldPath} is required`);
+                    } else if (found === undefined) {
+                        report.repairs.push(`${fieldPath} was missing`);
+                    }
+                    coerced = coerced ?? emptyValue(spec.type);
+                }
+                if (coerced !== undefined) result[key] = coerced;
+            });
+
+            if (report.errors.length > errorsBefore) return undefined;
+            const typed = result as T;
+            const problem = check?.(typed);
+            if (problem) {
+                report.errors.push(`${path}: ${problem}`);
+                return undefined;
+            }
+            return typed;
+        }
+    };
+};
+
+/**
+ * Schema for a list of objects. Accepts a bare array, an object wrapping the array
+ * (e.g. {"articles": [...]}) or a single object. Invalid items are dropped as long as
+ * at least `minItems` remain.
+ */
+export const listSchema = <T>(item: ResponseSchema<T>, wrapperKey: string, minItems = 1): ResponseSchema<T[]> => ({
+    name: `${item.name}[]`,
+    template: () => ({ [wrapperKey]: [item.template()] }),
+    validate: (value, report, path) => {
+        let list: unknown[];
+        if (Array.isArray(value)) {
+            list = value;
+        } else if (isObject(value)) {
+            const arrays = Object.entries(value).filter(([, v]) => Array.isArray(v));
+            const wrapped = arrays.find(([key]) => normalizeKey(key) === normalizeKey(wrapperKey)) || (arrays.length === 1 ? arrays[0] : undefined);
+            if (wrapped) {
+                if (wrapped[0] !== wrapperKey) report.repairs.push(`${path} read from "${wrapped[0]}"`);
+                list = wrapped[1] as unknown[];
+            } else {
+                report.repairs.push(`${path} wrapped a single object`);
+                list = [value];
+            }
+        } else {
+            report.errors.push(`${path} must be a JSON array`);
+            return undefined;
+        }
+
+        const items: T[] = [];
+        list.forEach((entry, i) => {
+            const itemReport: ValidationReport = { repairs: [], errors: [] };
+            const parsed = item.validate(entry, itemReport, `${path}[${i}]`);
+            if (parsed === undefined || itemReport.errors.length > 0) {
+                report.repairs.push(`${path}[${i}] dropped (${itemReport.errors.join('; ')})`);
+            } else {
+                items.push(parsed);
+                report.repairs.push(...itemReport.repairs);
+            }
+        });
+
+        if (items.length < minItems) {
+            report.errors.push(`${path} needs at least ${minItems} valid item(s), got ${items.length}`);
+            return undefined;
+        }
+        return items;
+    }
+});
+
+// --- JSON Extraction ---
+
+/**
+ * Pulls a JSON value out of model output: code fences, prose before/after the JSON and
+ * trailing commas are tolerated.
+ */
+export const extractJson = (text: string, report: ValidationReport): unknown => {
+    let candidate = text.replace(/^\uFEFF/, '').trim();
+
+    const fenced = candidate.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    if (fenced) {
+        report.repairs.push('removed code fence');
+        candidate = fenced[1].trim();
+    }
+
+    const attempts: [string, string | null][] = [[candidate, null]];
+
+    const start = candidate.search(/[[{]/);
+    if (start >= 0) {
+        const close = candidate[start] === '{' ? '}' : ']';
+        const end = candidate.lastIndexOf(close);
+        if (end > start) {
+            const sliced = candidate.slice(start, end + 1);
+            if (sliced !== candidate) attempts.push([sliced, 'removed text around JSON']);
+            attempts.push([sliced.replace(/,\s*([}\]])/g, '$1'), 'removed trailing commas']);
+        }
+    }
+
+    for (const [attempt, repair] of attempts) {
+        try {
+            const value = JSON.parse(attempt);
+            if (repair) report.repairs.push(repair);
+            return value;
+        } catch {
+            // Try the next, more aggressive variant
+        }
+    }
+    report.errors.push('response is not valid JSON');
+    return undefined;
+};
+
+/**
+ * Extracts, validates and repairs a model response against a schema.
+ */
+export const parseResponse = <T>(text: string | undefined, schema: ResponseSchema<T>): ParseResult<T> => {
+    const report: ValidationReport = { repairs: [], errors: [] };
+    const json = extractJson(text || '', report);
+    const value = report.errors.length === 0 ? schema.validate(json, report, schema.name) : undefined;
+
+    if (value === undefined || report.errors.length > 0) {
+        return { repairs: report.repairs, errors: report.errors.length > 0 ? report.errors : [`${schema.name} is invalid`] };
+    }
+    return { value, repairs: report.repairs, errors: [] };
+};
+
+/**
+ * Follow-up message asking the model to fix its previous reply.
+ */
+export const correctionPrompt = <T>(schema: ResponseSchema<T>, errors: string[]) => `
+Your previous reply could not be used: ${errors.join('; ')}.
+Reply again with ONLY valid JSON (no markdown, no commentary) matching this structure:
+${JSON.stringify(schema.template(), null, 2)}
+`;
+
+// --- Schemas ---
+
+export const WORD_DEFINITION_SCHEMA = objectSchema<WordDefinition>(
+    'WordDefinition',
+    {
+        word: { type: 'string' },
+        lemma: { type: 'string' },
+        phonetic: { type: 'string' },
+        pronunciationGuide: { type: 'string' },
+        dailyExample: { type: 'string' },
+        academicExample: { type: 'string' },
+        definitionCN: { type: 'string' },
+        definitionEN: { type: 'string' },
+        definitionSource: { type: 'string' }
+    },
+    d => (d.definitionCN || d.definitionEN || d.definitionSource ? null : 'at least one definition is required')
+);
+
+export const NEWS_RESPONSE_SCHEMA = objectSchema<NewsResponse>('NewsResponse', {
+    title: { type: 'string' },
+    content: { type: 'string', required: true },
+    sourceUrl: { type: 'url' },
+    audioUrl: { type: 'url' }
+});
+
+export const ARTICLE_RESPONSE_SCHEMA = objectSchema<ArticleResponse>('ArticleResponse', {
+    title: { type: 'string', required: true },
+    content: { type: 'string', required: true }
+});
+
+export const ARTICLE_LIST_SCHEMA = listSchema(ARTICLE_RESPONSE_SCHEMA, 'articles');
+
+export const READING_RESPONSE_SCHEMA = objectSchema<ReadingResponse>('ReadingResponse', {
+    text: { type: 'string', required: true },
+    reading: { type: 'string', required: true }
+});
+
+export const READING_LIST_SCHEMA = listSchema(READING_RESPONSE_SCHEMA, 'readings');
+
+export const TRANSLATION_RESPONSE_SCHEMA = objectSchema<TranslationResponse>('TranslationResponse', {
+    index: { type: 'number', required: true },
+    translation: { type: 'string', required: true }
+});
+
+export const TRANSLATION_LIST_SCHEMA = listSchema(TRANSLATION_RESPONSE_SCHEMA, 'translations');
+
+export const GRAMMAR_POINT_SCHEMA = objectSchema<GrammarPointResponse>('GrammarPoint', {
+    pattern: { type: 'string', required: true },
+    explanation: { type: 'string', required: true },
+    examples: { type: 'string[]' },
+    level: { type: 'string' }
+});
+
+export const GRAMMAR_POINT_LIST_SCHEMA = listSchema(GRAMMAR_POINT_SCHEMA, 'points');
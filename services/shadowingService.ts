@@ -0,0 +1,184 @@
+
+import { ShadowingScore } from "../types";
+import { FRAME_SECONDS, frameEnergies, silenceThreshold } from "./alignmentService";
+import { timeStretch } from "./timeStretchService";
+
+// --- Shadowing ---
+// A recording of the learner is compared with the narration of the same sentence, locally:
+// how close the speaking times are, and how alike the loudness and pitch contours look once
+// both are trimmed to the speech and stretched to the same length. Pitch is compared in
+// semitones from each speaker's own median, so a lower or higher voice is not penalised.
+
+const CONTOUR_POINTS = 60;
+const MIN_PITCH_HZ = 75;
+const MAX_PITCH_HZ = 400;
+const PITCH_WINDOW_SECONDS = 0.04;
+const VOICING_THRESHOLD = 0.5; // Normalised autocorrelation a frame needs to count as voiced
+const MIN_VOICED_SHARE = 0.2; // Of the contour points, on both sides, to compare pitch at all
+const MAX_SEMITONE_ERROR = 6; // An average pitch error this large scores 0
+const WEIGHTS = { duration: 0.3, energy: 0.35, pitch: 0.35 };
+
+export interface SpeechSamples {
+    samples: Float32Array; // Mono
+    sampleRate: number;
+}
+
+/**
+ * The narration of one sentence, mixed to mono and played at `rate` like the player would.
+ */
+export const sliceSpeech = (buffer: AudioBuffer, start: number, end: number, rate: number): SpeechSamples => {
+    const from = Math.max(0, Math.floor(start * buffer.sampleRate));
+    const to = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+    const mono = new Float32Array(Math.max(0, to - from));
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const channel = buffer.getChannelData(c);
+        for (let i = 0; i < mono.length; i++) mono[i] += channel[from + i] / buffer.numberOfChannels;
+    }
+    return { samples: timeStretch(mono, buffer.sampleRate, rate), sampleRate: buffer.sampleRate };
+};
+
+/**
+ * Decodes a microphone recording to mono samples at `sampleRate`.
+ */
+export const decodeRecording = async (audio: Blob, sampleRate: number): Promise<SpeechSamples> => {
+    const decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(await audio.arrayBuffer());
+    const mono = new Float32Array(decoded.length);
+    for (let c = 0; c < decoded.numberOfChannels; c++) {
+        const channel = decoded.getChannelData(c);
+        for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / decoded.numberOfChannels;
+    }
+    return { samples: mono, sampleRate: decoded.sampleRate };
+};
+
+/**
+ * Peak level in each of `bars` equal slices, scaled so the loudest is 1.
+ */
+export const waveformPeaks = (samples: Float32Array, bars: number): number[] => {
+    const peaks = new Array(bars).fill(0);
+    if (samples.length === 0) return peaks;
+    const size = samples.length / bars;
+    for (let b = 0; b < bars; b++) {
+        const to = Math.min(samples.length, Math.ceil((b + 1) * size));
+        for (let i = Math.floor(b * size); i < to; i++) peaks[b] = Math.max(peaks[b], Math.abs(samples[i]));
+    }
+    const loudest = Math.max(...peaks);
+    return loudest > 0 ? peaks.map(p => p / loudest) : peaks;
+};
+
+/**
+ * The speech between leading and trailing silence, in frames.
+ */
+const speechFrames = (energies: Float32Array) => {
+    const threshold = silenceThreshold(energies);
+    let first = 0;
+    let last = energies.length - 1;
+    while (first < last && energies[first] <= threshold) first++;
+    while (last > first && energies[last] <= threshold) last--;
+    return { first, last, threshold };
+};
+
+/**
+ * Frequency of each frame from its autocorrelation, or NaN where it is not voiced.
+ */
+const pitchTrack = ({ samples, sampleRate }: SpeechSamples, energies: Float32Array, threshold: number): number[] => {
+    const frameSize = Math.round(sampleRate * FRAME_SECONDS);
+    const window = Math.round(sampleRate * PITCH_WINDOW_SECONDS);
+    const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+    const maxLag = Math.ceil(sampleRate / MIN_PITCH_HZ);
+
+    return Array.from(energies, (energy, f) => {
+        const from = f * frameSize;
+        if (energy <= threshold || from + window + maxLag > samples.length) return NaN;
+        let power = 0;
+        for (let i = from; i < from + window; i++) power += samples[i] * samples[i];
+        let bestLag = 0;
+        let best = 0;
+        for (let lag = minLag; lag <= maxLag; lag++) {
+            let sum = 0;
+            let lagged = 0;
+            for (let i = from; i < from + window; i++) {
+                sum += samples[i] * samples[i + lag];
+                lagged += samples[i + lag] * samples[i + lag];
+            }
+            const correlation = sum / Math.sqrt(power * lagged || 1);
+            if (correlation > best) {
+                best = correlation;
+                bestLag = lag;
+            }
+        }
+        return best >= VOICING_THRESHOLD ? sampleRate / bestLag : NaN;
+    });
+};
+
+// A contour sampled at CONTOUR_POINTS evenly spaced positions
+const resample = (values: ArrayLike<number>, first: number, last: number): number[] =>
+    Array.from({ length: CONTOUR_POINTS }, (_, i) => values[Math.round(first + (i * (last - first)) / (CONTOUR_POINTS - 1))]);
+
+const correlation = (a: number[], b: number[]) => {
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const meanA = mean(a);
+    const meanB = mean(b);
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (let i = 0; i < a.length; i++) {
+        covariance += (a[i] - meanA) * (b[i] - meanB);
+        varianceA += (a[i] - meanA) ** 2;
+        varianceB += (b[i] - meanB) ** 2;
+    }
+    return varianceA && varianceB ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+};
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+interface SpeechProfile {
+    duration: number; // Seconds of speech
+    energy: number[]; // dB below the loudest frame
+    pitch: number[]; // Semitones from the speaker's median, NaN where unvoiced
+}
+
+const profileSpeech = (speech: SpeechSamples): SpeechProfile | null => {
+    const energies = frameEnergies([speech.samples], speech.sampleRate);
+    if (energies.length < 2) return null;
+    const { first, last, threshold } = speechFrames(energies);
+    if (last <= first) return null;
+
+    const loudest = Math.max(...energies);
+    const decibels = Array.from(energies, e => 20 * Math.log10(Math.max(e, 1e-6) / loudest));
+    const frequencies = pitchTrack(speech, energies, threshold);
+    const voiced = frequencies.filter(f => !isNaN(f));
+    const reference = voiced.length > 0 ? median(voiced) : 1;
+
+    return {
+        duration: (last - first + 1) * FRAME_SECONDS,
+        energy: resample(decibels, first, last),
+        pitch: resample(frequencies, first, last).map(f => 12 * Math.log2(f / reference))
+    };
+};
+
+/**
+ * Scores an attempt against the narration it shadows. Null when no speech was heard.
+ */
+export const compareSpeech = (reference: SpeechSamples, attempt: SpeechSamples): ShadowingScore | null => {
+    const expected = profileSpeech(reference);
+    const actual = profileSpeech(attempt);
+    if (!expected || !actual) return null;
+
+    const duration = Math.min(expected.duration, actual.duration) / Math.max(expected.duration, actual.duration);
+    const energy = Math.max(0, correlation(expected.energy, actual.energy));
+
+    let pitch: number | undefined;
+    const both = expected.pitch.map((p, i) => [p, actual.pitch[i]]).filter(([a, b]) => !isNaN(a) && !isNaN(b));
+    if (both.length >= CONTOUR_POINTS * MIN_VOICED_SHARE) {
+        const error = both.reduce((sum, [a, b]) => sum + Math.abs(a - b), 0) / both.length;
+        pitch = Math.max(0, 1 - error / MAX_SEMITONE_ERROR);
+    }
+
+    const overall = pitch === undefined
+        ? (duration * WEIGHTS.duration + energy * WEIGHTS.energy) / (WEIGHTS.duration + WEIGHTS.energy)
+        : duration * WEIGHTS.duration + energy * WEIGHTS.energy + pitch * WEIGHTS.pitch;
+    return { overall, duration, energy, pitch };
+};
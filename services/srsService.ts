@@ -0,0 +1,158 @@
+
+import { ReviewSchedule, ReviewGrade } from "../types";
+
+// --- Scheduler Constants ---
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_STABILITY_DAYS = 3650; // 10 years, replaces the old 30-day cap
+const RELEARN_DELAY = 10 * MINUTE; // Forgotten cards come back within the session
+const LAPSE_RETENTION = 0.2; // Share of stability kept after forgetting (instead of a full reset)
+const HARD_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+
+// Stability (days) assigned on the first graded review of a brand new card
+const INITIAL_STABILITY: Record<Exclude<ReviewGrade, 'again'>, number> = {
+    hard: 1,
+    good: 3,
+    easy: 7
+};
+
+// The fixed Ebbinghaus intervals (days) used before graded recall existed.
+// Used to derive a stability for items saved with only a `reviewStage`.
+const LEGACY_STAGE_DAYS = [1, 3, 7, 15, 30];
+
+const EASE_DELTA: Record<ReviewGrade, number> = {
+    again: -0.2,
+    hard: -0.15,
+    good: 0,
+    easy: 0.15
+};
+
+type SchedulingFields = Pick<ReviewSchedule, 'nextReviewAt' | 'reviewStage' | 'ease' | 'stability' | 'lapses'>;
+
+// --- Helpers ---
+
+const clampEase = (ease: number) => Math.max(MIN_EASE, ease);
+const clampStability = (days: number) => Math.min(MAX_STABILITY_DAYS, days);
+
+/**
+ * Scheduling state for a freshly captured word or grammar note. The first review is due
+ * after one day, matching the previous Ebbinghaus behaviour.
+ */
+export const createSchedulingState = (now: number = Date.now()): SchedulingFields => ({
+    nextReviewAt: now + DAY,
+    reviewStage: 0,
+    ease: DEFAULT_EASE,
+    stability: 0,
+    lapses: 0
+});
+
+/**
+ * Fills in ease/stability/lapses for items stored before the scheduler existed.
+ * The legacy `reviewStage` maps onto the interval it was last scheduled with.
+ */
+export const ensureSchedulingState = <T extends ReviewSchedule>(item: T): T => {
+    if (item.stability !== undefined && item.ease !== undefined && item.lapses !== undefined) {
+        return item;
+    }
+
+    let stability = item.stability;
+    if (stability === undefined) {
+        const stage = Math.max(0, item.reviewStage || 0);
+        // Stage 0 without any review means the card was never studied
+        stability = (stage === 0 && !item.lastReviewedAt)
+            ? 0
+            : LEGACY_STAGE_DAYS[Math.min(stage, LEGACY_STAGE_DAYS.length - 1)];
+    }
+
+    return {
+        ...item,
+        ease: item.ease ?? DEFAULT_EASE,
+        stability,
+        lapses: item.lapses ?? 0
+    };
+};
+
+/**
+ * Computes the next stability (days) and ease for a grade without mutating the item.
+ * Returns the delay in milliseconds until the card is due again.
+ */
+const computeSchedule = (item: ReviewSchedule, grade: ReviewGrade, now: number) => {
+    const card = ensureSchedulingState(item);
+    const stability = card.stability!;
+    const ease = clampEase(card.ease! + EASE_DELTA[grade]);
+    let lapses = card.lapses!;
+
+    // Brand new card: seed the stability from the grade
+    if (stability === 0) {
+        if (grade === 'again') {
+            return { ease, stability: 0, lapses, delay: RELEARN_DELAY };
+        }
+        const next = INITIAL_STABILITY[grade];
+        return { ease, stability: next, lapses, delay: next * DAY };
+    }
+
+    if (grade === 'again') {
+        lapses += 1;
+        const next = Math.max(1, stability * LAPSE_RETENTION);
+        return { ease, stability: next, lapses, delay: RELEARN_DELAY };
+    }
+
+    // Reward successful recall of overdue cards by using the real elapsed time
+    const elapsedDays = card.lastReviewedAt ? (now - card.lastReviewedAt) / DAY : stability;
+    const effective = Math.max(stability, elapsedDays);
+
+    let next: number;
+    if (grade === 'hard') {
+        next = stability * HARD_FACTOR;
+    } else if (grade === 'good') {
+        next = effective * ease;
+    } else {
+        next = effective * ease * EASY_BONUS;
+    }
+    // A successful review always pushes the card out by at least a day
+    next = clampStability(Math.max(next, stability + 1));
+
+    return { ease, stability: next, lapses, delay: next * DAY };
+};
+
+// --- Public API ---
+
+/**
+ * Applies a graded review to a vocabulary item or grammar note and returns the updated copy.
+ */
+export const gradeReview = <T extends ReviewSchedule>(item: T, grade: ReviewGrade, now: number = Date.now()): T => {
+    const { ease, stability, lapses, delay } = computeSchedule(item, grade, now);
+    return {
+        ...item,
+        ease,
+        stability,
+        lapses,
+        reviewStage: grade === 'again' ? 0 : (item.reviewStage || 0) + 1,
+        lastReviewedAt: now,
+        nextReviewAt: now + delay
+    };
+};
+
+/**
+ * Returns the delay (ms) each grade would produce, for labelling the grade buttons.
+ */
+export const previewIntervals = (item: ReviewSchedule, now: number = Date.now()): Record<ReviewGrade, number> => ({
+    again: computeSchedule(item, 'again', now).delay,
+    hard: computeSchedule(item, 'hard', now).delay,
+    good: computeSchedule(item, 'good', now).delay,
+    easy: computeSchedule(item, 'easy', now).delay
+});
+
+export const formatInterval = (ms: number): string => {
+    if (ms < 60 * MINUTE) return `${Math.max(1, Math.round(ms / MINUTE))}m`;
+    if (ms < DAY) return `${Math.round(ms / (60 * MINUTE))}h`;
+    const days = ms / DAY;
+    if (days < 30) return `${Math.round(days)}d`;
+    if (days < 365) return `${(days / 30).toFixed(1)}mo`;
+    return `${(days / 365).toFixed(1)}y`;
+};
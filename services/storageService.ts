@@ -0,0 +1,751 @@
+
+import { Article, GrammarNote, KnownWord, Language, ShadowingRecording, VocabularyItem, WordOccurrence } from "../types";
+import { base64ToBytes, bytesToBase64 } from "./audioService";
+import { inferLanguage, itemKey } from "./vocabularyService";
+import { FormMerge } from "./lemmaService";
+import { occurrenceId } from "./occurrenceService";
+
+// --- Schema ---
+
+const DB_NAME = 'linguistdaily';
+
+const STORES = {
+    articles: 'articles',
+    audio: 'audio',
+    vocabulary: 'vocabulary',
+    settings: 'settings',
+    dailyContent: 'dailyContent',
+    knownWords: 'knownWords',
+    occurrences: 'occurrences',
+    grammarNotes: 'grammarNotes',
+    recordings: 'recordings'
+} as const;
+
+// localStorage keys used before the IndexedDB layer existed
+const LEGACY_KEYS = {
+    history: 'linguist_history',
+    vocabulary: 'linguist_vocab',
+    settings: 'linguist_settings'
+};
+
+// Audio lives in its own store so article/vocabulary reads stay light
+interface AudioRecord {
+    id: string;
+    data: Blob;
+    encoding: 'pcm' | 'mp3';
+}
+
+// Articles are stored without inline audio, plus the time they were last opened
+type StoredArticle = Omit<Article, 'audioBase64'> & { openedAt: number };
+type StoredVocabularyItem = Omit<VocabularyItem, 'audioBase64'>;
+
+// Generated selection for one language on one day. Audio goes to the audio store under
+// the article's own id, so opening the article later does not duplicate it.
+interface DailyContentRecord {
+    id: string; // `${language}:${day}`
+    language: Language;
+    day: string; // Local YYYY-MM-DD
+    articles: Omit<Article, 'audioBase64'>[];
+    createdAt: number;
+}
+
+interface SettingRecord {
+    key: string;
+    value: unknown;
+}
+
+const articleAudioId = (id: string) => `article:${id}`;
+const vocabularyAudioId = (id: string) => `vocab:${id}`;
+
+const toAudioRecord = (id: string, base64: string, encoding: 'pcm' | 'mp3' = 'pcm'): AudioRecord => ({
+    id,
+    data: new Blob([base64ToBytes(base64)]),
+    encoding
+});
+
+const splitArticle = (article: Article, openedAt: number): StoredArticle => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { audioBase64, ...rest } = article;
+    return { ...rest, openedAt };
+};
+
+const splitVocabularyItem = (item: VocabularyItem): StoredVocabularyItem => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { audioBase64, ...rest } = item;
+    return rest;
+};
+
+/**
+ * Ordered schema migrations. Migration `i` upgrades the database from version `i` to `i + 1`.
+ * They run inside the versionchange transaction, so they must only use synchronous work.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+    // v1: initial stores + one-time import of the old localStorage keys
+    (db, tx) => {
+        const articles = db.createObjectStore(STORES.articles, { keyPath: 'id' });
+        articles.createIndex('openedAt', 'openedAt');
+        db.createObjectStore(STORES.audio, { keyPath: 'id' });
+        db.createObjectStore(STORES.vocabulary, { keyPath: 'id' });
+        db.createObjectStore(STORES.settings, { keyPath: 'key' });
+
+        importLegacyLocalStorage(tx);
+    },
+    // v2: vocabulary is scoped per language; tag existing words using the reading history
+    (_db, tx) => {
+        const articles = tx.objectStore(STORES.articles).getAll() as IDBRequest<StoredArticle[]>;
+        articles.onsuccess = () => {
+            const cursorRequest = tx.objectStore(STORES.vocabulary).openCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor) return;
+                const item = cursor.value as VocabularyItem;
+                if (!item.language) {
+                    cursor.update({ ...item, language: inferLanguage(item, articles.result) });
+                }
+                cursor.continue();
+            };
+        };
+    },
+    // v3: per-language, per-day cache of generated content
+    (db) => {
+        const daily = db.createObjectStore(STORES.dailyContent, { keyPath: 'id' });
+        daily.createIndex('day', 'day');
+    },
+    // v4: words marked as known, keyed like vocabulary so lookups match
+    (db) => {
+        db.createObjectStore(STORES.knownWords, { keyPath: 'key' });
+    },
+    // v5: back-links from saved words to the article sentences they appeared in
+    (db) => {
+        const occurrences = db.createObjectStore(STORES.occurrences, { keyPath: 'id' });
+        occurrences.createIndex('wordKey', 'wordKey');
+    },
+    // v6: grammar notebook
+    (db) => {
+        db.createObjectStore(STORES.grammarNotes, { keyPath: 'id' });
+    },
+    // v7: shadowing recordings, looked up per article
+    (db) => {
+        const recordings = db.createObjectStore(STORES.recordings, { keyPath: 'id' });
+        recordings.createIndex('articleId', 'articleId');
+    }
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+const readLegacyJson = <T>(key: string): T | null => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : null;
+    } catch (e) {
+        console.warn(`Skipping unreadable legacy key ${key}`, e);
+        return null;
+    }
+};
+
+const importLegacyLocalStorage = (tx: IDBTransaction) => {
+    const history = readLegacyJson<Article[]>(LEGACY_KEYS.history) || [];
+    const vocabulary = readLegacyJson<VocabularyItem[]>(LEGACY_KEYS.vocabulary) || [];
+    const settings = readLegacyJson<unknown>(LEGACY_KEYS.settings);
+
+    // History was stored newest first and may contain repeats; keep the first occurrence
+    const now = Date.now();
+    const seen = new Set<string>();
+    history.forEach((article, i) => {
+        if (seen.has(article.id)) return;
+        seen.add(article.id);
+        tx.objectStore(STORES.articles).put(splitArticle(article, now - i));
+    });
+
+    vocabulary.forEach(item => {
+        tx.objectStore(STORES.vocabulary).put(splitVocabularyItem(item));
+        if (item.audioBase64) {
+            try {
+                tx.objectStore(STORES.audio).put(toAudioRecord(vocabularyAudioId(item.id), item.audioBase64, item.audioEncoding));
+            } catch (e) {
+                console.warn(`Skipping corrupt audio for "${item.word}"`, e);
+            }
+        }
+    });
+
+    if (settings) {
+        tx.objectStore(STORES.settings).put({ key: 'apiSettings', value: settings });
+    }
+
+    // Only clear the old keys once everything has been committed
+    tx.addEventListener('complete', () => {
+        Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+    });
+};
+
+// --- Connection ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+});
+
+/**
+ * Opens (and if needed upgrades) the database. Safe to call repeatedly.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error("IndexedDB is not available in this browser"));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            const tx = request.transaction!;
+            for (let version = event.oldVersion; version < DB_VERSION; version++) {
+                MIGRATIONS[version](db, tx);
+            }
+        };
+
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab upgraded the schema; release our connection so it can proceed
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => console.warn("Database upgrade blocked by another open tab");
+    });
+
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+// --- Change Notifications ---
+// Lets other layers (cloud sync) learn about writes without every caller reporting them.
+
+export type ChangeOrigin = 'local' | 'sync';
+
+export interface StorageChange {
+    store: 'articles' | 'vocabulary';
+    ids: string[]; // Saved
+    deletedKeys?: string[]; // Vocabulary only: `itemKey` of words no longer stored under any entry
+    origin: ChangeOrigin;
+}
+
+const changeListeners = new Set<(change: StorageChange) => void>();
+
+export const onStorageChange = (listener: (change: StorageChange) => void) => {
+    changeListeners.add(listener);
+    return () => { changeListeners.delete(listener); };
+};
+
+const notifyChange = (change: StorageChange) => {
+    if (change.ids.length === 0 && !change.deletedKeys?.length) return;
+    changeListeners.forEach(listener => listener(change));
+};
+
+const readAudio = async (store: IDBObjectStore, id: string) => {
+    const record = await requestToPromise(store.get(id) as IDBRequest<AudioRecord | undefined>);
+    if (!record) return undefined;
+    const bytes = new Uint8Array(await record.data.arrayBuffer());
+    return { audioBase64: bytesToBase64(bytes), audioEncoding: record.encoding };
+};
+
+// --- Articles ---
+
+/**
+ * Reading history, newest first. Audio is not included; use `loadArticle` for playback.
+ */
+export const loadHistory = async (): Promise<Article[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.articles, 'readonly');
+    const records = await requestToPromise(
+        tx.objectStore(STORES.articles).index('openedAt').getAll() as IDBRequest<StoredArticle[]>
+    );
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    return records.reverse().map(({ openedAt, ...article }) => article);
+};
+
+/**
+ * Full article including its narration audio, if any was saved.
+ */
+export const loadArticle = async (id: string): Promise<Article | null> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.articles, STORES.audio], 'readonly');
+    const record = await requestToPromise(tx.objectStore(STORES.articles).get(id) as IDBRequest<StoredArticle | undefined>);
+    if (!record) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { openedAt, ...article } = record;
+    const audio = await readAudio(tx.objectStore(STORES.audio), articleAudioId(id));
+    return audio ? { ...article, ...audio } : article;
+};
+
+/**
+ * Saves an article to history (moving it to the top) together with its audio.
+ */
+export const saveArticle = async (article: Article): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.articles, STORES.audio], 'readwrite');
+    tx.objectStore(STORES.articles).put(splitArticle(article, Date.now()));
+    if (article.audioBase64) {
+        tx.objectStore(STORES.audio).put(toAudioRecord(articleAudioId(article.id), article.audioBase64, article.audioEncoding));
+    }
+    await transactionDone(tx);
+    notifyChange({ store: 'articles', ids: [article.id], origin: 'local' });
+};
+
+export type HistoryRecord = Article & { openedAt: number };
+
+/**
+ * Every saved article with its history position. Audio is included unless `withAudio`
+ * is false. Used for full backups and cloud sync.
+ */
+export const loadAllArticles = async ({ withAudio = true } = {}): Promise<HistoryRecord[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.articles, STORES.audio], 'readonly');
+    const records = await requestToPromise(tx.objectStore(STORES.articles).getAll() as IDBRequest<StoredArticle[]>);
+    if (!withAudio) return records;
+    const audioStore = tx.objectStore(STORES.audio);
+
+    return Promise.all(records.map(async (record) => {
+        const audio = await readAudio(audioStore, articleAudioId(record.id));
+        return audio ? { ...record, ...audio } : record;
+    }));
+};
+
+/**
+ * Writes articles keeping their original history position.
+ */
+export const saveArticles = async (records: HistoryRecord[], origin: ChangeOrigin = 'local'): Promise<void> => {
+    if (records.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.articles, STORES.audio], 'readwrite');
+    records.forEach(({ openedAt, ...article }) => {
+        tx.objectStore(STORES.articles).put(splitArticle(article, openedAt));
+        if (article.audioBase64) {
+            tx.objectStore(STORES.audio).put(toAudioRecord(articleAudioId(article.id), article.audioBase64, article.audioEncoding));
+        }
+    });
+    await transactionDone(tx);
+    notifyChange({ store: 'articles', ids: records.map(r => r.id), origin });
+};
+
+// --- Vocabulary ---
+
+export const loadVocabulary = async ({ withAudio = true } = {}): Promise<VocabularyItem[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.vocabulary, STORES.audio], 'readonly');
+    const records = await requestToPromise(tx.objectStore(STORES.vocabulary).getAll() as IDBRequest<StoredVocabularyItem[]>);
+    if (!withAudio) return records.sort((a, b) => b.addedAt - a.addedAt);
+    const audioStore = tx.objectStore(STORES.audio);
+
+    const items = await Promise.all(records.map(async (record) => {
+        const audio = await readAudio(audioStore, vocabularyAudioId(record.id));
+        return audio ? { ...record, ...audio } : record;
+    }));
+    // Newest first, matching the order the sidebar has always used
+    return items.sort((a, b) => b.addedAt - a.addedAt);
+};
+
+/**
+ * Inserts or updates the given items. Only changed items need to be passed.
+ */
+export const saveVocabularyItems = async (items: VocabularyItem[], origin: ChangeOrigin = 'local'): Promise<void> => {
+    if (items.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.vocabulary, STORES.audio], 'readwrite');
+    items.forEach(item => {
+        tx.objectStore(STORES.vocabulary).put(splitVocabularyItem(item));
+        if (item.audioBase64) {
+            tx.objectStore(STORES.audio).put(toAudioRecord(vocabularyAudioId(item.id), item.audioBase64, item.audioEncoding));
+        }
+    });
+    await transactionDone(tx);
+    notifyChange({ store: 'vocabulary', ids: items.map(i => i.id), origin });
+};
+
+/**
+ * Merges fields into a stored item without touching its scheduling state or audio.
+ * Used by background jobs that may race with reviews of the same item.
+ */
+export const patchVocabularyItem = async (id: string, patch: Partial<StoredVocabularyItem>): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.vocabulary, 'readwrite');
+    const store = tx.objectStore(STORES.vocabulary);
+    const record = await requestToPromise(store.get(id) as IDBRequest<StoredVocabularyItem | undefined>);
+    if (record) {
+        store.put({ ...record, ...patch, id });
+    }
+    await transactionDone(tx);
+    if (record) notifyChange({ store: 'vocabulary', ids: [id], origin: 'local' });
+};
+
+// Keys of `removed` that none of `remaining` still uses
+const vanishedKeys = (removed: VocabularyItem[], remaining: VocabularyItem[]) => {
+    const kept = new Set(remaining.map(itemKey));
+    return [...new Set(removed.map(itemKey))].filter(key => !kept.has(key));
+};
+
+export const deleteVocabularyItems = async (ids: string[], origin: ChangeOrigin = 'local'): Promise<void> => {
+    if (ids.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.vocabulary, STORES.audio], 'readwrite');
+    const records = await requestToPromise(tx.objectStore(STORES.vocabulary).getAll() as IDBRequest<StoredVocabularyItem[]>);
+    ids.forEach(id => {
+        tx.objectStore(STORES.vocabulary).delete(id);
+        tx.objectStore(STORES.audio).delete(vocabularyAudioId(id));
+    });
+    await transactionDone(tx);
+    const removed = new Set(ids);
+    const deletedKeys = vanishedKeys(records.filter(r => removed.has(r.id)), records.filter(r => !removed.has(r.id)));
+    notifyChange({ store: 'vocabulary', ids: [], deletedKeys, origin });
+};
+
+/**
+ * Folds entries into the one they are another form of, in one transaction: the kept entry is
+ * saved, the absorbed ones and their audio removed, and their occurrences moved to the kept entry.
+ */
+export const mergeVocabularyItems = async (merges: FormMerge[]): Promise<void> => {
+    if (merges.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.vocabulary, STORES.audio, STORES.occurrences], 'readwrite');
+    const occurrences = tx.objectStore(STORES.occurrences);
+    merges.forEach(({ item, absorbed }) => {
+        tx.objectStore(STORES.vocabulary).put(splitVocabularyItem(item));
+        if (item.audioBase64) {
+            tx.objectStore(STORES.audio).put(toAudioRecord(vocabularyAudioId(item.id), item.audioBase64, item.audioEncoding));
+        }
+        absorbed.forEach(other => {
+            tx.objectStore(STORES.vocabulary).delete(other.id);
+            tx.objectStore(STORES.audio).delete(vocabularyAudioId(other.id));
+            const request = occurrences.index('wordKey').getAll(itemKey(other)) as IDBRequest<WordOccurrence[]>;
+            request.onsuccess = () => request.result.forEach(occurrence => {
+                occurrences.delete(occurrence.id);
+                const wordKey = itemKey(item);
+                occurrences.put({ ...occurrence, id: occurrenceId(wordKey, occurrence.articleId, occurrence.offset), wordKey });
+            });
+        });
+    });
+    await transactionDone(tx);
+    notifyChange({
+        store: 'vocabulary',
+        ids: merges.map(({ item }) => item.id),
+        deletedKeys: vanishedKeys(merges.flatMap(({ absorbed }) => absorbed), merges.map(({ item }) => item)),
+        origin: 'local'
+    });
+};
+
+// Everything that belongs to the learner rather than to the device
+const LEARNER_STORES = [
+    STORES.articles, STORES.audio, STORES.vocabulary, STORES.dailyContent,
+    STORES.knownWords, STORES.occurrences, STORES.grammarNotes, STORES.recordings
+];
+
+/**
+ * Removes all history, vocabulary, known words, occurrences, grammar notes, recordings and audio.
+ * Settings are kept.
+ * The daily content cache goes too, since its audio lives in the same store.
+ */
+export const clearLearnerData = async (): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(LEARNER_STORES, 'readwrite');
+    LEARNER_STORES.forEach(store => tx.objectStore(store).clear());
+    return transactionDone(tx);
+};
+
+export interface LearnerData {
+    history: HistoryRecord[];
+    vocabulary: VocabularyItem[];
+    knownWords: KnownWord[];
+    grammarNotes: GrammarNote[];
+    occurrences: WordOccurrence[];
+    recordings: ShadowingRecording[];
+    settings: Record<string, unknown>; // By setting key; settings not listed are kept
+}
+
+/**
+ * Clears learner data like `clearLearnerData` and writes `data` in its place, all in one
+ * transaction: if any write fails, the previous data is left untouched.
+ */
+export const replaceLearnerData = async (data: LearnerData): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([...LEARNER_STORES, STORES.settings], 'readwrite');
+    const previous = await requestToPromise(tx.objectStore(STORES.vocabulary).getAll() as IDBRequest<StoredVocabularyItem[]>);
+    // A put that throws (e.g. a record without its key) would otherwise let the clears commit
+    try {
+        LEARNER_STORES.forEach(store => tx.objectStore(store).clear());
+        data.history.forEach(({ openedAt, ...article }) => {
+            tx.objectStore(STORES.articles).put(splitArticle(article, openedAt));
+            if (article.audioBase64) {
+                tx.objectStore(STORES.audio).put(toAudioRecord(articleAudioId(article.id), article.audioBase64, article.audioEncoding));
+            }
+        });
+        data.vocabulary.forEach(item => {
+            tx.objectStore(STORES.vocabulary).put(splitVocabularyItem(item));
+            if (item.audioBase64) {
+                tx.objectStore(STORES.audio).put(toAudioRecord(vocabularyAudioId(item.id), item.audioBase64, item.audioEncoding));
+            }
+        });
+        data.knownWords.forEach(word => tx.objectStore(STORES.knownWords).put(word));
+        data.grammarNotes.forEach(note => tx.objectStore(STORES.grammarNotes).put(note));
+        data.occurrences.forEach(occurrence => tx.objectStore(STORES.occurrences).put(occurrence));
+        data.recordings.forEach(recording => tx.objectStore(STORES.recordings).put(recording));
+        Object.entries(data.settings).forEach(([key, value]) => tx.objectStore(STORES.settings).put({ key, value }));
+    } catch (e) {
+        tx.abort();
+        throw e;
+    }
+    await transactionDone(tx);
+    notifyChange({ store: 'articles', ids: data.history.map(r => r.id), origin: 'local' });
+    notifyChange({ store: 'vocabulary', ids: data.vocabulary.map(i => i.id), deletedKeys: vanishedKeys(previous, data.vocabulary), origin: 'local' });
+};
+
+// --- Known Words ---
+
+export const loadKnownWords = async (): Promise<KnownWord[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.knownWords, 'readonly');
+    return requestToPromise(tx.objectStore(STORES.knownWords).getAll() as IDBRequest<KnownWord[]>);
+};
+
+export const saveKnownWords = async (words: KnownWord[]): Promise<void> => {
+    if (words.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.knownWords, 'readwrite');
+    words.forEach(word => tx.objectStore(STORES.knownWords).put(word));
+    return transactionDone(tx);
+};
+
+export const deleteKnownWords = async (keys: string[]): Promise<void> => {
+    if (keys.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.knownWords, 'readwrite');
+    keys.forEach(key => tx.objectStore(STORES.knownWords).delete(key));
+    return transactionDone(tx);
+};
+
+// --- Occurrences ---
+
+/**
+ * Where a word was seen, oldest first.
+ */
+export const loadOccurrences = async (wordKey: string): Promise<WordOccurrence[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.occurrences, 'readonly');
+    const records = await requestToPromise(
+        tx.objectStore(STORES.occurrences).index('wordKey').getAll(wordKey) as IDBRequest<WordOccurrence[]>
+    );
+    return records.sort((a, b) => a.seenAt - b.seenAt);
+};
+
+/**
+ * Every recorded occurrence. Used for full backups.
+ */
+export const loadAllOccurrences = async (): Promise<WordOccurrence[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.occurrences, 'readonly');
+    return requestToPromise(tx.objectStore(STORES.occurrences).getAll() as IDBRequest<WordOccurrence[]>);
+};
+
+/**
+ * Records occurrences, keeping the first time each one was seen.
+ */
+export const saveOccurrences = async (occurrences: WordOccurrence[]): Promise<void> => {
+    if (occurrences.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.occurrences, 'readwrite');
+    const store = tx.objectStore(STORES.occurrences);
+    occurrences.forEach(occurrence => {
+        const request = store.add(occurrence);
+        // Already recorded; not an error worth aborting the batch for
+        request.onerror = (event) => {
+            event.preventDefault();
+            event.stopPropagation();
+        };
+    });
+    return transactionDone(tx);
+};
+
+// --- Grammar Notes ---
+
+export const loadGrammarNotes = async (): Promise<GrammarNote[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.grammarNotes, 'readonly');
+    return requestToPromise(tx.objectStore(STORES.grammarNotes).getAll() as IDBRequest<GrammarNote[]>);
+};
+
+export const saveGrammarNotes = async (notes: GrammarNote[]): Promise<void> => {
+    if (notes.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.grammarNotes, 'readwrite');
+    notes.forEach(note => tx.objectStore(STORES.grammarNotes).put(note));
+    return transactionDone(tx);
+};
+
+export const deleteGrammarNotes = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.grammarNotes, 'readwrite');
+    ids.forEach(id => tx.objectStore(STORES.grammarNotes).delete(id));
+    return transactionDone(tx);
+};
+
+// --- Shadowing Recordings ---
+
+/**
+ * An article's recordings, oldest first.
+ */
+export const loadRecordings = async (articleId: string): Promise<ShadowingRecording[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.recordings, 'readonly');
+    const records = await requestToPromise(
+        tx.objectStore(STORES.recordings).index('articleId').getAll(articleId) as IDBRequest<ShadowingRecording[]>
+    );
+    return records.sort((a, b) => a.recordedAt - b.recordedAt);
+};
+
+/**
+ * Every recording. Used for full backups.
+ */
+export const loadAllRecordings = async (): Promise<ShadowingRecording[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.recordings, 'readonly');
+    return requestToPromise(tx.objectStore(STORES.recordings).getAll() as IDBRequest<ShadowingRecording[]>);
+};
+
+export const saveRecordings = async (recordings: ShadowingRecording[]): Promise<void> => {
+    if (recordings.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.recordings, 'readwrite');
+    recordings.forEach(recording => tx.objectStore(STORES.recordings).put(recording));
+    return transactionDone(tx);
+};
+
+export const deleteRecordings = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.recordings, 'readwrite');
+    ids.forEach(id => tx.objectStore(STORES.recordings).delete(id));
+    return transactionDone(tx);
+};
+
+// --- Daily Content Cache ---
+
+const dailyContentId = (language: Language, day: string) => `${language}:${day}`;
+
+/**
+ * Key for "today" in local time, so the selection rolls over at the learner's midnight.
+ */
+export const contentDayKey = (date: Date = new Date()) => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Cached selection for a language and day, without audio (see `loadArticleAudio`).
+ */
+export const loadDailyContent = async (language: Language, day: string): Promise<Article[] | null> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.dailyContent, 'readonly');
+    const record = await requestToPromise(
+        tx.objectStore(STORES.dailyContent).get(dailyContentId(language, day)) as IDBRequest<DailyContentRecord | undefined>
+    );
+    return record ? record.articles : null;
+};
+
+export const saveDailyContent = async (language: Language, day: string, articles: Article[]): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.dailyContent, STORES.audio], 'readwrite');
+    const record: DailyContentRecord = {
+        id: dailyContentId(language, day),
+        language,
+        day,
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        articles: articles.map(({ audioBase64, ...article }) => article),
+        createdAt: Date.now()
+    };
+    tx.objectStore(STORES.dailyContent).put(record);
+    articles.forEach(article => {
+        if (article.audioBase64) {
+            tx.objectStore(STORES.audio).put(toAudioRecord(articleAudioId(article.id), article.audioBase64, article.audioEncoding));
+        }
+    });
+    return transactionDone(tx);
+};
+
+/**
+ * Stores the narration of an article in a cached selection. Nothing happens once that day
+ * has been pruned.
+ */
+export const saveDailyNarration = async (language: Language, day: string, articleId: string, narration: Partial<Article>, audioBase64: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.dailyContent, STORES.audio], 'readwrite');
+    const store = tx.objectStore(STORES.dailyContent);
+    const record = await requestToPromise(store.get(dailyContentId(language, day)) as IDBRequest<DailyContentRecord | undefined>);
+    if (record?.articles.some(article => article.id === articleId)) {
+        store.put({ ...record, articles: record.articles.map(article => article.id === articleId ? { ...article, ...narration } : article) });
+        tx.objectStore(STORES.audio).put(toAudioRecord(articleAudioId(articleId), audioBase64, narration.audioEncoding));
+    }
+    return transactionDone(tx);
+};
+
+/**
+ * Narration for any article we generated, whether or not it has been opened yet.
+ */
+export const loadArticleAudio = async (article: Article): Promise<Article> => {
+    if (article.audioBase64) return article;
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.audio, 'readonly');
+    const audio = await readAudio(tx.objectStore(STORES.audio), articleAudioId(article.id));
+    return audio ? { ...article, ...audio } : article;
+};
+
+/**
+ * Drops cached days before `keepFromDay`. Audio is removed only for articles that never
+ * made it into the reading history.
+ */
+export const pruneDailyContent = async (keepFromDay: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.dailyContent, STORES.articles, STORES.audio], 'readwrite');
+    const stale = await requestToPromise(
+        tx.objectStore(STORES.dailyContent).index('day').getAll(IDBKeyRange.upperBound(keepFromDay, true)) as IDBRequest<DailyContentRecord[]>
+    );
+    const historyIds = new Set(await requestToPromise(tx.objectStore(STORES.articles).getAllKeys()));
+
+    stale.forEach(record => {
+        tx.objectStore(STORES.dailyContent).delete(record.id);
+        record.articles.forEach(article => {
+            if (!historyIds.has(article.id)) tx.objectStore(STORES.audio).delete(articleAudioId(article.id));
+        });
+    });
+    return transactionDone(tx);
+};
+
+// --- Settings ---
+
+export const loadSetting = async <T>(key: string): Promise<T | null> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.settings, 'readonly');
+    const record = await requestToPromise(tx.objectStore(STORES.settings).get(key) as IDBRequest<SettingRecord | undefined>);
+    return record ? record.value as T : null;
+};
+
+export const saveSetting = async <T>(key: string, value: T): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.settings, 'readwrite');
+    tx.objectStore(STORES.settings).put({ key, value });
+    return transactionDone(tx);
+};
@@ -1,5 +1,5 @@
 
-import { createClient } from '@supabase/supabase-js';
+import { createClient, Session } from '@supabase/supabase-js';
 import { ApiSettings } from '../types';
 
 // Use environment variables for connection
@@ -9,7 +9,7 @@ const supabaseKey = process.env.SUPABASE_ANON_KEY;
 
 
 // Initialize client if credentials exist
-const supabase = (supabaseUrl && supabaseKey) 
+export const supabase = (supabaseUrl && supabaseKey) 
   ? createClient(supabaseUrl, supabaseKey) 
   : null;
 
@@ -59,3 +59,43 @@ export const fetchSupabaseConfig = async (): Promise<Partial<ApiSettings> | null
         return null;
     }
 };
+
+// --- Accounts (used by cloud sync) ---
+
+const requireClient = () => {
+    if (!supabase) throw new Error("Cloud sync is not configured (SUPABASE_URL / SUPABASE_ANON_KEY)");
+    return supabase;
+};
+
+export const getSession = async (): Promise<Session | null> => {
+    if (!supabase) return null;
+    const { data } = await supabase.auth.getSession();
+    return data.session;
+};
+
+export const signIn = async (email: string, password: string): Promise<Session> => {
+    const { data, error } = await requireClient().auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    return data.session;
+};
+
+/**
+ * Creates an account. Returns null when the project requires email confirmation
+ * before the first sign-in.
+ */
+export const signUp = async (email: string, password: string): Promise<Session | null> => {
+    const { data, error } = await requireClient().auth.signUp({ email, password });
+    if (error) throw error;
+    return data.session;
+};
+
+export const signOut = async (): Promise<void> => {
+    const { error } = await requireClient().auth.signOut();
+    if (error) throw error;
+};
+
+export const onSessionChange = (listener: (session: Session | null) => void) => {
+    if (!supabase) return () => {};
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => listener(session));
+    return () => data.subscription.unsubscribe();
+};
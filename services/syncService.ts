@@ -0,0 +1,470 @@
+
+import { Session } from '@supabase/supabase-js';
+import { VocabularyItem } from "../types";
+import { supabase, getSession, onSessionChange } from "./supabaseService";
+import { ensureSchedulingState } from "./srsService";
+import { itemKey, lastActivity } from "./vocabularyService";
+import {
+    HistoryRecord,
+    loadAllArticles,
+    loadVocabulary,
+    saveArticles,
+    saveVocabularyItems,
+    deleteVocabularyItems,
+    loadSetting,
+    saveSetting,
+    onStorageChange
+} from "./storageService";
+
+// --- Remote Schema ---
+// Tables are created by supabase/migrations. Rows are private to their user (RLS):
+//   learner_vocabulary (user_id, word_key)   word_key = language + word, so the same word
+//                                             saved on two devices ends up in one row
+//   learner_history    (user_id, article_id)
+// `modified_at` is the learner's own timestamp (lastReviewedAt/addedAt, openedAt) and a
+// trigger ignores writes older than the stored row. `synced_at` is set by the server on
+// every accepted write and is what pulls page through. Audio is never uploaded.
+// A deleted word stays as a tombstone row (`deleted_at` set, no item) whose modified_at is
+// the deletion time, so deletions take part in last-write-wins like any other write.
+
+const VOCABULARY_TABLE = 'learner_vocabulary';
+const HISTORY_TABLE = 'learner_history';
+const PAGE_SIZE = 500;
+
+// Pull slightly before the saved cursor so rows committed out of order are not missed.
+// Re-reading a row we already have is a no-op.
+const CURSOR_OVERLAP_MS = 60 * 1000;
+const PUSH_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+const QUEUE_SETTING = 'syncQueue';
+const cursorSetting = (userId: string) => `syncCursor:${userId}`;
+
+type SyncedStore = 'vocabulary' | 'articles';
+
+interface VocabularyRow {
+    user_id: string;
+    word_key: string;
+    language: string;
+    item: VocabularyItem | null; // Null for tombstones
+    modified_at: number;
+    deleted_at: number | null;
+    synced_at?: string;
+}
+
+interface HistoryRow {
+    user_id: string;
+    article_id: string;
+    language: string;
+    article: HistoryRecord;
+    modified_at: number;
+    synced_at?: string;
+}
+
+// Pending local changes: id -> stamp of the latest change. The stamp lets a push
+// drop only the entries it actually uploaded when the item changes again meanwhile.
+// Deleted words are queued by word key, and their stamp is the deletion time.
+type QueueSection = SyncedStore | 'deletedVocabulary';
+type SyncQueue = Record<QueueSection, Record<string, number>>;
+type SyncCursors = Record<SyncedStore, string | null>;
+
+export interface SyncResult {
+    pulled: number;
+    pushed: number;
+    conflicts: number;
+}
+
+export type SyncPhase = 'unavailable' | 'signed-out' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+    phase: SyncPhase;
+    email: string | null;
+    pending: number;
+    lastSyncedAt: number | null;
+    lastResult: SyncResult | null;
+    error: string | null;
+}
+
+// --- Helpers ---
+
+const isNetworkError = (e: any) => {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+    const message = String(e?.message || e || '');
+    return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+// JSON with sorted keys; Postgres jsonb does not keep key order
+const canonical = (value: unknown) => JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+        ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+        : v
+);
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const sameContent = ({ id: _a, ...a }: VocabularyItem, { id: _b, ...b }: VocabularyItem) => canonical(a) === canonical(b);
+
+const laterCursor = (current: string | null, candidate: string | undefined) =>
+    candidate && (!current || Date.parse(candidate) > Date.parse(current)) ? candidate : current;
+
+const chunk = <T>(items: T[], size: number) => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks;
+};
+
+// --- Offline Queue ---
+
+let queue: SyncQueue | null = null;
+let lastStamp = 0;
+
+const loadQueue = async (): Promise<SyncQueue> => {
+    if (!queue) {
+        // Queues saved before deletions were synced lack that section
+        queue = { vocabulary: {}, articles: {}, deletedVocabulary: {}, ...(await loadSetting<Partial<SyncQueue>>(QUEUE_SETTING)) };
+    }
+    return queue;
+};
+
+const pendingCount = () => queue ? Object.values(queue).reduce((sum, section) => sum + Object.keys(section).length, 0) : 0;
+
+const enqueue = async (store: QueueSection, ids: string[]) => {
+    if (ids.length === 0) return;
+    const q = await loadQueue();
+    ids.forEach(id => {
+        lastStamp = Math.max(Date.now(), lastStamp + 1);
+        q[store][id] = lastStamp;
+    });
+    await saveSetting(QUEUE_SETTING, q);
+    setStatus({ pending: pendingCount() });
+};
+
+const dequeue = async (store: QueueSection, uploaded: Record<string, number>) => {
+    const q = await loadQueue();
+    Object.entries(uploaded).forEach(([id, stamp]) => {
+        if (q[store][id] === stamp) delete q[store][id];
+    });
+    await saveSetting(QUEUE_SETTING, q);
+    setStatus({ pending: pendingCount() });
+};
+
+// --- Pull ---
+
+const client = () => {
+    if (!supabase) throw new Error("Cloud sync is not configured");
+    return supabase;
+};
+
+const fetchChangedRows = async <T>(table: string, userId: string, since: string | null): Promise<T[]> => {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        let query = client()
+            .from(table)
+            .select('*')
+            .eq('user_id', userId)
+            .order('synced_at', { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+        if (since) {
+            query = query.gt('synced_at', new Date(Date.parse(since) - CURSOR_OVERLAP_MS).toISOString());
+        }
+        const { data, error } = await query;
+        if (error) throw error;
+        rows.push(...(data as T[]));
+        if (data.length < PAGE_SIZE) return rows;
+    }
+};
+
+/**
+ * Applies remote vocabulary changes with last-write-wins on the learner's timestamps.
+ * A conflict is a word that changed on both sides; the newer copy is kept and, when the
+ * local copy wins, it stays queued so the next push overwrites the remote row. Tombstones
+ * win the same way, against the local copy's last activity.
+ */
+const pullVocabulary = async (userId: string, since: string | null) => {
+    const rows = await fetchChangedRows<VocabularyRow>(VOCABULARY_TABLE, userId, since);
+    const { vocabulary: pending, deletedVocabulary: deleted } = await loadQueue();
+    const localByKey = new Map((await loadVocabulary({ withAudio: false })).map(item => [itemKey(item), item]));
+
+    const toSave: VocabularyItem[] = [];
+    const toDelete: string[] = [];
+    const toQueue: string[] = [];
+    let conflicts = 0;
+    let cursor = since;
+
+    rows.forEach(row => {
+        cursor = laterCursor(cursor, row.synced_at);
+        const local = localByKey.get(row.word_key);
+
+        if (row.deleted_at !== null || !row.item) {
+            if (!local) return;
+            const isPending = local.id in pending;
+            const localTime = lastActivity(local);
+            if (row.modified_at > localTime || (row.modified_at === localTime && !isPending)) {
+                toDelete.push(local.id);
+                if (isPending) conflicts++;
+            } else {
+                if (!isPending) toQueue.push(local.id);
+                conflicts++;
+            }
+            return;
+        }
+
+        const incoming = ensureSchedulingState({ ...row.item, language: row.item.language || row.language } as VocabularyItem);
+
+        if (!local) {
+            // Deleted here after it was last active elsewhere; the tombstone goes up with the next push
+            if (row.word_key in deleted && deleted[row.word_key] >= row.modified_at) return;
+            toSave.push(incoming);
+            return;
+        }
+        if (sameContent(local, incoming)) return;
+
+        const isPending = local.id in pending;
+        const remoteTime = lastActivity(incoming);
+        const localTime = lastActivity(local);
+
+        if (remoteTime > localTime || (remoteTime === localTime && !isPending)) {
+            // Keep the local id so audio and open references stay attached
+            toSave.push({ ...incoming, id: local.id });
+            if (isPending) conflicts++;
+        } else {
+            if (!isPending) toQueue.push(local.id);
+            conflicts++;
+        }
+    });
+
+    await saveVocabularyItems(toSave, 'sync');
+    await deleteVocabularyItems(toDelete, 'sync');
+    if (toQueue.length > 0) await enqueue('vocabulary', toQueue);
+    return { applied: toSave.length + toDelete.length, conflicts, cursor };
+};
+
+const pullHistory = async (userId: string, since: string | null) => {
+    const rows = await fetchChangedRows<HistoryRow>(HISTORY_TABLE, userId, since);
+    const localById = new Map((await loadAllArticles({ withAudio: false })).map(a => [a.id, a]));
+
+    const toSave: HistoryRecord[] = [];
+    const toQueue: string[] = [];
+    let cursor = since;
+
+    rows.forEach(row => {
+        cursor = laterCursor(cursor, row.synced_at);
+        const local = localById.get(row.article_id);
+        if (!local || row.modified_at > local.openedAt) {
+            toSave.push({ ...row.article, openedAt: row.modified_at });
+        } else if (row.modified_at < local.openedAt) {
+            toQueue.push(local.id);
+        }
+    });
+
+    await saveArticles(toSave, 'sync');
+    if (toQueue.length > 0) await enqueue('articles', toQueue);
+    return { applied: toSave.length, cursor };
+};
+
+// --- Push ---
+
+const pushVocabulary = async (userId: string) => {
+    const { vocabulary: queued, deletedVocabulary: queuedDeletions } = await loadQueue();
+    const snapshot = { ...queued };
+    const deletions = { ...queuedDeletions };
+    if (Object.keys(snapshot).length === 0 && Object.keys(deletions).length === 0) return 0;
+
+    // One row per word; if local duplicates exist, the most recently active one wins
+    const vocabulary = await loadVocabulary({ withAudio: false });
+    const rows = new Map<string, VocabularyRow>();
+    vocabulary
+        .filter(item => item.id in snapshot)
+        .forEach(item => {
+            const key = itemKey(item);
+            const existing = rows.get(key);
+            if (existing && existing.modified_at >= lastActivity(item)) return;
+            rows.set(key, { user_id: userId, word_key: key, language: item.language, item, modified_at: lastActivity(item), deleted_at: null });
+        });
+
+    // A word saved again since it was deleted is not deleted any more
+    const stored = new Set(vocabulary.map(itemKey));
+    Object.entries(deletions).forEach(([key, deletedAt]) => {
+        if (stored.has(key)) return;
+        const language = key.slice(0, key.indexOf(':'));
+        rows.set(key, { user_id: userId, word_key: key, language, item: null, modified_at: deletedAt, deleted_at: deletedAt });
+    });
+
+    for (const batch of chunk([...rows.values()], PAGE_SIZE)) {
+        const { error } = await client().from(VOCABULARY_TABLE).upsert(batch, { onConflict: 'user_id,word_key' });
+        if (error) throw error;
+    }
+    await dequeue('vocabulary', snapshot);
+    await dequeue('deletedVocabulary', deletions);
+    return rows.size;
+};
+
+const pushHistory = async (userId: string) => {
+    const snapshot = { ...(await loadQueue()).articles };
+    if (Object.keys(snapshot).length === 0) return 0;
+
+    const rows: HistoryRow[] = (await loadAllArticles({ withAudio: false }))
+        .filter(article => article.id in snapshot)
+        .map(article => ({ user_id: userId, article_id: article.id, language: article.language, article, modified_at: article.openedAt }));
+
+    for (const batch of chunk(rows, PAGE_SIZE)) {
+        const { error } = await client().from(HISTORY_TABLE).upsert(batch, { onConflict: 'user_id,article_id' });
+        if (error) throw error;
+    }
+    await dequeue('articles', snapshot);
+    return rows.length;
+};
+
+// --- Engine ---
+
+let session: Session | null = null;
+let status: SyncStatus = {
+    phase: supabase ? 'signed-out' : 'unavailable',
+    email: null,
+    pending: 0,
+    lastSyncedAt: null,
+    lastResult: null,
+    error: null
+};
+const statusListeners = new Set<(status: SyncStatus) => void>();
+
+let running: Promise<SyncResult | null> | null = null;
+let rerunRequested = false;
+let pushTimer: ReturnType<typeof setTimeout> | undefined;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+let retryDelay = PUSH_DELAY_MS;
+let remoteChangeHandler: (() => void) | null = null;
+
+const setStatus = (patch: Partial<SyncStatus>) => {
+    status = { ...status, ...patch };
+    statusListeners.forEach(listener => listener(status));
+};
+
+export const subscribeSyncStatus = (listener: (status: SyncStatus) => void) => {
+    statusListeners.add(listener);
+    listener(status);
+    return () => { statusListeners.delete(listener); };
+};
+
+const scheduleSync = (delay: number) => {
+    if (!session) return;
+    clearTimeout(pushTimer);
+    pushTimer = setTimeout(() => { syncNow(); }, delay);
+};
+
+const scheduleRetry = () => {
+    clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => { syncNow(); }, retryDelay);
+    retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+};
+
+const runSync = async (): Promise<SyncResult | null> => {
+    if (!supabase || !session) return null;
+    const userId = session.user.id;
+    setStatus({ phase: 'syncing', error: null });
+
+    try {
+        const saved = await loadSetting<SyncCursors>(cursorSetting(userId));
+        if (!saved) {
+            // First sync of this account on this device: upload everything we have
+            const [vocabulary, history] = await Promise.all([
+                loadVocabulary({ withAudio: false }),
+                loadAllArticles({ withAudio: false })
+            ]);
+            await enqueue('vocabulary', vocabulary.map(v => v.id));
+            await enqueue('articles', history.map(a => a.id));
+        }
+        const cursors = saved || { vocabulary: null, articles: null };
+
+        // Pull first so conflicts are resolved locally before anything is uploaded
+        const vocabulary = await pullVocabulary(userId, cursors.vocabulary);
+        const history = await pullHistory(userId, cursors.articles);
+        await saveSetting(cursorSetting(userId), { vocabulary: vocabulary.cursor, articles: history.cursor });
+
+        const pushed = (await pushVocabulary(userId)) + (await pushHistory(userId));
+
+        const result: SyncResult = { pulled: vocabulary.applied + history.applied, pushed, conflicts: vocabulary.conflicts };
+        retryDelay = PUSH_DELAY_MS;
+        clearTimeout(retryTimer);
+        setStatus({ phase: 'idle', lastSyncedAt: Date.now(), lastResult: result, pending: pendingCount() });
+        if (result.pulled > 0) remoteChangeHandler?.();
+        return result;
+    } catch (e: any) {
+        const offline = isNetworkError(e);
+        if (!offline) console.error("Cloud sync failed", e);
+        setStatus({ phase: offline ? 'offline' : 'error', error: offline ? null : (e?.message || 'Sync failed') });
+        scheduleRetry();
+        return null;
+    }
+};
+
+/**
+ * Pulls remote changes, then pushes the offline queue. Concurrent calls share one run;
+ * a call made while a run is in progress triggers one more run afterwards.
+ */
+export const syncNow = (): Promise<SyncResult | null> => {
+    if (running) {
+        rerunRequested = true;
+        return running;
+    }
+    running = runSync().finally(() => {
+        running = null;
+        if (rerunRequested) {
+            rerunRequested = false;
+            scheduleSync(0);
+        }
+    });
+    return running;
+};
+
+const applySession = async (next: Session | null) => {
+    session = next;
+    await loadQueue();
+    setStatus({
+        phase: next ? 'idle' : 'signed-out',
+        email: next?.user.email || null,
+        pending: pendingCount(),
+        error: null
+    });
+    if (next) scheduleSync(0);
+};
+
+/**
+ * Starts background sync: queues local writes, syncs on sign-in, shortly after changes,
+ * when the device comes back online and when the app returns to the foreground.
+ * `onRemoteChanges` is called after remote data was written to local storage.
+ * Returns a cleanup function.
+ */
+export const startSync = (onRemoteChanges: () => void) => {
+    if (!supabase) return () => {};
+    remoteChangeHandler = onRemoteChanges;
+
+    // Changes are queued even while signed out and uploaded after the next sign-in
+    const stopStorage = onStorageChange(change => {
+        if (change.origin !== 'local') return;
+        enqueue(change.store, change.ids)
+            .then(() => enqueue('deletedVocabulary', change.deletedKeys || []))
+            .then(() => scheduleSync(PUSH_DELAY_MS))
+            .catch(e => console.error("Failed to queue change for sync", e));
+    });
+
+    // Defer: auth callbacks must not call back into the client synchronously
+    const stopSession = onSessionChange(next => { setTimeout(() => applySession(next), 0); });
+    getSession().then(applySession).catch(e => console.warn("Could not restore sync session", e));
+
+    const handleOnline = () => scheduleSync(0);
+    const handleVisibility = () => {
+        if (document.visibilityState === 'visible') scheduleSync(0);
+    };
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+        stopStorage();
+        stopSession();
+        window.removeEventListener('online', handleOnline);
+        document.removeEventListener('visibilitychange', handleVisibility);
+        clearTimeout(pushTimer);
+        clearTimeout(retryTimer);
+        remoteChangeHandler = null;
+    };
+};
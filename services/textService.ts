@@ -0,0 +1,88 @@
+
+import { Language } from "../types";
+
+export interface TextSegment {
+    segment: string;
+    index: number; // Character offset in the source text
+}
+
+// Map full language names to ISO codes for Intl.Segmenter
+export const getIsoCode = (lang: Language | string): string => {
+    switch(lang) {
+        case 'Japanese': return 'ja';
+        case 'Korean': return 'ko';
+        case 'French': return 'fr';
+        case 'Italian': return 'it';
+        case 'Dutch': return 'nl';
+        case 'English': return 'en';
+        case 'Cantonese': return 'zh-HK';
+        case 'Spanish': return 'es';
+        default: return 'en';
+    }
+};
+
+const createSegmenter = (language: Language | string, granularity: 'sentence' | 'word') => {
+    const Segmenter = (Intl as any).Segmenter;
+    return Segmenter ? new Segmenter(getIsoCode(language), { granularity }) : null;
+};
+
+/**
+ * Splits text into sentences, keeping trailing whitespace with each sentence so the
+ * segments cover the whole text.
+ */
+export const segmentSentences = (text: string, language: Language | string): TextSegment[] => {
+    try {
+        const segmenter = createSegmenter(language, 'sentence');
+        if (segmenter) {
+            return Array.from(segmenter.segment(text) as Iterable<TextSegment>).map(({ segment, index }) => ({ segment, index }));
+        }
+    } catch (e) {
+        console.warn("Sentence segmentation unavailable, using fallback", e);
+    }
+    // Fallback regex split (Enhanced for CJK)
+    const raw = text.match(/[^.!?。！？]+[.!?。！？]+["']?|[^.!?。！？]+$/g) || [text];
+    let currentIndex = 0;
+    return raw.map(s => {
+        const item = { segment: s, index: currentIndex };
+        currentIndex += s.length;
+        return item;
+    });
+};
+
+/**
+ * Word-like tokens only (no punctuation or whitespace). Uses dictionary-based
+ * segmentation where the browser has it, which matters for Japanese and Cantonese.
+ */
+export const segmentWords = (text: string, language: Language | string): TextSegment[] => {
+    try {
+        const segmenter = createSegmenter(language, 'word');
+        if (segmenter) {
+            return Array.from(segmenter.segment(text) as Iterable<TextSegment & { isWordLike?: boolean }>)
+                .filter(s => s.isWordLike)
+                .map(({ segment, index }) => ({ segment, index }));
+        }
+    } catch (e) {
+        console.warn("Word segmentation unavailable, using fallback", e);
+    }
+    return Array.from(text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}\p{M}'’-]*/gu)).map(m => ({ segment: m[0], index: m.index || 0 }));
+};
+
+export interface TextToken extends TextSegment {
+    isWord: boolean;
+}
+
+/**
+ * The whole text as alternating word and non-word tokens, so it can be rendered
+ * token by token without losing punctuation or spacing.
+ */
+export const tokenizeText = (text: string, language: Language | string): TextToken[] => {
+    const tokens: TextToken[] = [];
+    let cursor = 0;
+    segmentWords(text, language).forEach(({ segment, index }) => {
+        if (index > cursor) tokens.push({ segment: text.slice(cursor, index), index: cursor, isWord: false });
+        tokens.push({ segment, index, isWord: true });
+        cursor = index + segment.length;
+    });
+    if (cursor < text.length) tokens.push({ segment: text.slice(cursor), index: cursor, isWord: false });
+    return tokens;
+};
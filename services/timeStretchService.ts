@@ -0,0 +1,90 @@
+
+// --- Pitch-Preserving Time Stretch ---
+// WSOLA (waveform-similarity overlap-add): the audio is rebuilt from short overlapping
+// windows taken from where the new speed says they should come from, each nudged a few
+// milliseconds so it lines up with the window before it. Speed changes, pitch does not.
+
+const FRAME_SECONDS = 0.03;
+const TOLERANCE_SECONDS = 0.006; // How far a window may be nudged
+const SEARCH_STEP = 3; // Coarse search; plenty for speech and keeps long articles fast
+
+export interface TimeStretcher {
+    /** Takes all input so far and returns the part of the output that can no longer change. */
+    extend: (input: Float32Array) => Float32Array;
+    /** Takes the complete input and returns the complete output. */
+    finish: (input: Float32Array) => Float32Array;
+}
+
+/**
+ * Stretches audio that arrives a piece at a time, such as a narration still being generated.
+ * Each call only places the windows the new samples made possible; earlier input must not change.
+ */
+export const createTimeStretcher = (sampleRate: number, rate: number): TimeStretcher => {
+    const frame = Math.max(4, Math.round(sampleRate * FRAME_SECONDS) & ~1);
+    const hop = frame / 2;
+    const tolerance = Math.round(sampleRate * TOLERANCE_SECONDS);
+
+    // Periodic Hann windows at 50% overlap add up to exactly 1
+    const window = new Float32Array(frame);
+    for (let i = 0; i < frame; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame);
+
+    let output = new Float32Array(0);
+    let out = 0; // Output position of the next window; everything before it is final
+    let previous = -1; // Input position of the last window
+
+    const place = (input: Float32Array, complete: boolean) => {
+        const outputLength = Math.ceil(input.length / rate);
+        for (; out < outputLength; out += hop) {
+            // Until the input is complete, a window waits for every sample it could be taken from
+            if (!complete && Math.round(out * rate) + tolerance + frame > input.length) break;
+            if (out + frame > output.length) {
+                const grown = new Float32Array(Math.max(out + frame, output.length * 2));
+                grown.set(output);
+                output = grown;
+            }
+
+            const ideal = Math.min(input.length - 1, Math.round(out * rate));
+            let best = ideal;
+
+            // What naturally follows the previous window is what this one should sound like
+            const natural = previous + hop;
+            if (previous >= 0 && natural + hop <= input.length) {
+                let bestScore = -Infinity;
+                for (let d = -tolerance; d <= tolerance; d += SEARCH_STEP) {
+                    const candidate = ideal + d;
+                    if (candidate < 0 || candidate + hop > input.length) continue;
+                    let score = 0;
+                    for (let i = 0; i < hop; i += SEARCH_STEP) score += input[candidate + i] * input[natural + i];
+                    if (score > bestScore) {
+                        bestScore = score;
+                        best = candidate;
+                    }
+                }
+            }
+
+            const end = Math.min(frame, input.length - best);
+            for (let i = 0; i < end; i++) output[out + i] += input[best + i] * window[i];
+            previous = best;
+        }
+        return outputLength;
+    };
+
+    return {
+        extend: (input) => {
+            place(input, false);
+            return output.subarray(0, out);
+        },
+        finish: (input) => {
+            const length = place(input, true);
+            return output.subarray(0, length);
+        }
+    };
+};
+
+/**
+ * Returns `input` played `rate` times as fast (0.5 = half speed, twice as long).
+ */
+export const timeStretch = (input: Float32Array, sampleRate: number, rate: number): Float32Array => {
+    if (rate === 1 || input.length === 0) return input.slice();
+    return createTimeStretcher(sampleRate, rate).finish(input);
+};
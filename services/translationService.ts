@@ -0,0 +1,26 @@
+
+import { Article, TranslationTarget } from "../types";
+
+export const TRANSLATION_TARGETS: { target: TranslationTarget, label: string, name: string }[] = [
+    { target: 'EN', label: 'EN', name: 'English' },
+    { target: 'CN', label: '中文', name: 'Simplified Chinese' }
+];
+
+export const DEFAULT_TRANSLATION_TARGET: TranslationTarget = 'EN';
+
+export const translationTargetName = (target: TranslationTarget) =>
+    TRANSLATION_TARGETS.find(t => t.target === target)?.name || 'English';
+
+/**
+ * Cached translation of the sentence starting at `offset`, if it was translated before.
+ */
+export const cachedTranslation = (article: Article, target: TranslationTarget, offset: number): string | undefined =>
+    article.translations?.[target]?.[offset];
+
+/**
+ * The article's translations with new sentences added for one target language.
+ */
+export const mergeTranslations = (article: Article, target: TranslationTarget, entries: Record<number, string>): Article['translations'] => ({
+    ...article.translations,
+    [target]: { ...article.translations?.[target], ...entries }
+});
@@ -0,0 +1,77 @@
+
+import { Article, KnownWord, Language, VocabularyItem } from "../types";
+
+// --- Identity ---
+
+/**
+ * Two entries are the same word when both the spelling (case-insensitive) and the
+ * language match, so e.g. French and Spanish "son" stay separate.
+ */
+export const vocabularyKey = (word: string, language: Language | undefined) =>
+    `${language || ''}:${word.trim().toLowerCase()}`;
+
+export const itemKey = (item: VocabularyItem) => vocabularyKey(item.word, item.language);
+
+export const createKnownWord = (word: string, language: Language): KnownWord => ({
+    key: vocabularyKey(word, language),
+    word: word.trim(),
+    language,
+    markedAt: Date.now()
+});
+
+// Most recent learner activity on an item, used for last-write-wins when merging copies
+export const lastActivity = (item: VocabularyItem) => Math.max(item.addedAt || 0, item.lastReviewedAt || 0);
+
+export const filterByLanguage = (vocabulary: VocabularyItem[], language: Language | null) =>
+    language ? vocabulary.filter(v => v.language === language) : vocabulary;
+
+export const countDueByLanguage = (vocabulary: VocabularyItem[], now: number = Date.now()) => {
+    const counts: Partial<Record<Language, number>> = {};
+    vocabulary.forEach(item => {
+        if (item.nextReviewAt <= now && item.language) {
+            counts[item.language] = (counts[item.language] || 0) + 1;
+        }
+    });
+    return counts;
+};
+
+// --- Language Inference (for entries saved before `language` existed) ---
+
+type ArticleText = Pick<Article, 'content' | 'language'>;
+
+const detectScript = (text: string): Language | null => {
+    if (/[\u3040-\u30FF]/.test(text)) return Language.JAPANESE; // Kana
+    if (/[\uAC00-\uD7AF\u1100-\u11FF]/.test(text)) return Language.KOREAN; // Hangul
+    if (/[\u4E00-\u9FFF]/.test(text)) return Language.CANTONESE; // Han only
+    return null;
+};
+
+/**
+ * Best guess for the language of a legacy entry:
+ * 1. the article containing its context sentence,
+ * 2. the article containing the word itself,
+ * 3. the writing system of the word,
+ * 4. the language read most often.
+ */
+export const inferLanguage = (item: Pick<VocabularyItem, 'word' | 'contextSentence'>, articles: ArticleText[]): Language => {
+    const context = item.contextSentence?.trim();
+    if (context) {
+        const source = articles.find(a => a.content.includes(context));
+        if (source) return source.language;
+    }
+
+    const word = item.word.trim().toLowerCase();
+    const withWord = articles.find(a => a.content.toLowerCase().includes(word));
+    if (withWord) return withWord.language;
+
+    const byScript = detectScript(item.word);
+    if (byScript) return byScript;
+
+    const frequency = new Map<Language, number>();
+    articles.forEach(a => frequency.set(a.language, (frequency.get(a.language) || 0) + 1));
+    const mostRead = [...frequency.entries()].sort((a, b) => b[1] - a[1])[0];
+    return mostRead ? mostRead[0] : Language.ENGLISH;
+};
+
+export const ensureLanguage = <T extends VocabularyItem>(item: T, articles: ArticleText[]): T =>
+    item.language ? item : { ...item, language: inferLanguage(item, articles) };
@@ -0,0 +1,65 @@
+
+import { ApiProviderKind, Language, NarrationVoice, VoiceGender, VoicePreference } from "../types";
+
+// --- Narration Voices ---
+
+export interface ProviderVoice {
+    name: string;
+    gender: VoiceGender;
+}
+
+// Prebuilt voices per provider kind. The first voice of each gender is its default, which
+// keeps the voices used before preferences existed (Kore, alloy).
+export const PROVIDER_VOICES: Record<ApiProviderKind, ProviderVoice[]> = {
+    'gemini': [
+        { name: 'Kore', gender: 'female' },
+        { name: 'Aoede', gender: 'female' },
+        { name: 'Leda', gender: 'female' },
+        { name: 'Zephyr', gender: 'female' },
+        { name: 'Puck', gender: 'male' },
+        { name: 'Charon', gender: 'male' },
+        { name: 'Fenrir', gender: 'male' },
+        { name: 'Orus', gender: 'male' }
+    ],
+    'openai-compatible': [
+        { name: 'alloy', gender: 'female' },
+        { name: 'nova', gender: 'female' },
+        { name: 'shimmer', gender: 'female' },
+        { name: 'echo', gender: 'male' },
+        { name: 'fable', gender: 'male' },
+        { name: 'onyx', gender: 'male' }
+    ]
+};
+
+export const VOICE_PROVIDER_LABELS: Record<ApiProviderKind, string> = {
+    'gemini': 'Gemini',
+    'openai-compatible': 'OpenAI'
+};
+
+export const SPEAKING_RATES: { rate: number; label: string }[] = [
+    { rate: 0.7, label: 'Slow' },
+    { rate: 0.85, label: 'Relaxed' },
+    { rate: 1, label: 'Normal' },
+    { rate: 1.15, label: 'Fast' }
+];
+
+export const DEFAULT_VOICE_PREFERENCE: VoicePreference = { gender: 'female', rate: 1 };
+
+export const voicePreferenceFor = (preferences: Partial<Record<Language, VoicePreference>>, language: Language): VoicePreference =>
+    preferences[language] || DEFAULT_VOICE_PREFERENCE;
+
+/**
+ * The voice a provider of this kind should use: the named voice if it has it, otherwise
+ * its default voice for the preferred gender.
+ */
+export const voiceFor = (preference: VoicePreference, kind: ApiProviderKind): string => {
+    const voices = PROVIDER_VOICES[kind];
+    const named = voices.find(v => v.name === preference.voice);
+    return (named || voices.find(v => v.gender === preference.gender) || voices[0]).name;
+};
+
+export const rateLabel = (rate: number) =>
+    SPEAKING_RATES.find(r => r.rate === rate)?.label || `${rate}x`;
+
+export const describeVoice = (voice: NarrationVoice) =>
+    `${voice.voice} · ${voice.provider}${voice.rate !== 1 ? ` · ${rateLabel(voice.rate)}` : ''}`;
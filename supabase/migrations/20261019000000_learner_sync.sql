@@ -0,0 +1,62 @@
+-- Cloud sync of vocabulary and reading history (see services/syncService.ts).
+-- Each row holds the client-side record as JSON; only the columns needed for
+-- keying, conflict resolution and incremental pulls are broken out.
+
+create table if not exists public.learner_vocabulary (
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    word_key text not null,
+    language text not null,
+    item jsonb not null,
+    modified_at bigint not null,
+    synced_at timestamptz not null default clock_timestamp(),
+    primary key (user_id, word_key)
+);
+
+create table if not exists public.learner_history (
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    article_id text not null,
+    language text not null,
+    article jsonb not null,
+    modified_at bigint not null,
+    synced_at timestamptz not null default clock_timestamp(),
+    primary key (user_id, article_id)
+);
+
+create index if not exists learner_vocabulary_synced_at on public.learner_vocabulary (user_id, synced_at);
+create index if not exists learner_history_synced_at on public.learner_history (user_id, synced_at);
+
+-- Last write wins on the learner's own timestamps: an upsert from a device that
+-- was offline with older data is ignored instead of overwriting newer progress.
+create or replace function public.keep_newest_learner_row()
+returns trigger
+language plpgsql
+as $$
+begin
+    if tg_op = 'UPDATE' and new.modified_at < old.modified_at then
+        return null;
+    end if;
+    new.synced_at := clock_timestamp();
+    return new;
+end;
+$$;
+
+drop trigger if exists learner_vocabulary_keep_newest on public.learner_vocabulary;
+create trigger learner_vocabulary_keep_newest
+    before insert or update on public.learner_vocabulary
+    for each row execute function public.keep_newest_learner_row();
+
+drop trigger if exists learner_history_keep_newest on public.learner_history;
+create trigger learner_history_keep_newest
+    before insert or update on public.learner_history
+    for each row execute function public.keep_newest_learner_row();
+
+alter table public.learner_vocabulary enable row level security;
+alter table public.learner_history enable row level security;
+
+drop policy if exists "Learners manage their own vocabulary" on public.learner_vocabulary;
+create policy "Learners manage their own vocabulary" on public.learner_vocabulary
+    for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "Learners manage their own history" on public.learner_history;
+create policy "Learners manage their own history" on public.learner_history
+    for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
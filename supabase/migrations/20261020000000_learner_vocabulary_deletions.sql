@@ -0,0 +1,7 @@
+-- Deleted words are kept as tombstones so other devices remove them too
+-- (see services/syncService.ts). A tombstone has no item, and its modified_at is
+-- the deletion time, so the usual last-write-wins trigger decides between a
+-- deletion and an edit made elsewhere; writing the word again revives the row.
+
+alter table public.learner_vocabulary add column if not exists deleted_at bigint;
+alter table public.learner_vocabulary alter column item drop not null;
@@ -10,20 +10,43 @@ export enum Language {
   SPANISH = 'Spanish'
 }
 
-export type ApiProvider = 'gemini' | 'openai' | 'deepseek';
+// Gemini uses the Google SDK; everything else speaks the OpenAI chat completions API
+export type ApiProviderKind = 'gemini' | 'openai-compatible';
+
+export interface ApiProvider {
+  id: string; // 'gemini' | 'openai' | 'deepseek' for built-ins, generated for custom endpoints
+  kind: ApiProviderKind;
+  name: string;
+  enabled: boolean;
+  model: string; // Text / JSON model
+  ttsModel?: string; // Speech model; empty if the provider cannot do TTS
+  baseUrl?: string; // OpenAI-compatible only, e.g. http://localhost:11434/v1 for Ollama
+}
+
+// Failures that may hand a request to the next provider in the chain
+export type FallbackErrorClass = 'quota' | 'network' | 'malformed';
 
 export interface ApiSettings {
-  primary: ApiProvider; // Always 'gemini' in this specific requirement, but flexible for future
-  backup: ApiProvider;
-  keys: {
-    gemini?: string;
-    openai?: string;
-    deepseek?: string;
-  };
+  providers: ApiProvider[]; // Tried in order
+  fallbackOn: Record<FallbackErrorClass, boolean>;
+  keys: Record<string, string | undefined>; // API key per provider id
+}
+
+// Common European Framework of Reference levels
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export interface StudyLanguage {
+  language: Language;
+  level: CefrLevel; // Target level for generated content
+}
+
+export interface LearnerProfile {
+  studyLanguages: StudyLanguage[]; // Active languages, in the order they are preloaded and shown
 }
 
 export interface WordDefinition {
   word: string;
+  lemma?: string; // Dictionary form (infinitive, plain form), when it differs from the word as read
   phonetic: string;
   pronunciationGuide: string;
   dailyExample: string;
@@ -33,17 +56,145 @@ export interface WordDefinition {
   definitionSource: string;
 }
 
-export interface VocabularyItem extends WordDefinition {
-  id: string;
-  addedAt: number; // Timestamp
+// Recall grades offered after flipping a flashcard (SM-2 / FSRS style)
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Where in an article a word or phrase was selected
+export interface WordSource {
+  articleId: string;
+  offset: number; // Character offset in the article content
+}
+
+// A sentence in a read article where a saved word or phrase appeared
+export interface WordOccurrence {
+  id: string; // `${wordKey}|${articleId}|${offset}`
+  wordKey: string; // vocabularyKey of the item, so it survives id changes from sync or restore
+  articleId: string;
+  offset: number; // Character offset of the sentence in the article content
+  sentence: string;
+  seenAt: number; // When the article was read
+}
+
+// Spaced repetition state of anything reviewed with flashcards
+export interface ReviewSchedule {
   nextReviewAt: number; // Timestamp
-  reviewStage: number; // 0 to 5
-  contextSentence?: string;
+  reviewStage: number; // Consecutive successful reviews (legacy: 0 to 5 Ebbinghaus stage)
+  ease?: number; // SM-2 ease factor, 1.3 and up
+  stability?: number; // Current memory stability in days (0 = never reviewed)
+  lapses?: number; // Number of times the card was forgotten
   lastReviewedAt?: number; // Timestamp of last manual review
+}
+
+export interface VocabularyItem extends WordDefinition, ReviewSchedule {
+  id: string;
+  language: Language; // Deck the word belongs to
+  addedAt: number; // Timestamp
+  variants?: string[]; // Other surface forms of the same lemma the learner has looked up
+  contextSentence?: string; // Full sentence(s) the word or phrase was selected from
+  sourceArticleId?: string; // Article it was selected in
+  sourceOffset?: number; // Character offset of the selection in that article's content
   audioBase64?: string; // Pronunciation audio
   audioEncoding?: 'pcm' | 'mp3'; // Gemini uses PCM, others usually MP3
 }
 
+// One construction explained from a sentence (Korean endings, subjunctive, keigo...)
+export interface GrammarPoint {
+  pattern: string; // The construction itself, e.g. "-(으)ㄹ 수 있다" or "il faut que + subjonctif"
+  explanation: string;
+  examples: string[];
+  level?: CefrLevel; // Level it is usually taught at
+}
+
+// A grammar point saved to the notebook and reviewed like vocabulary
+export interface GrammarNote extends GrammarPoint, ReviewSchedule {
+  id: string;
+  language: Language;
+  addedAt: number;
+  sentence: string; // Sentence it was explained from
+  sourceArticleId?: string;
+  sourceOffset?: number; // Character offset of that sentence in the article content
+}
+
+// A word the learner already knows and does not want to study (LingQ-style "known")
+export interface KnownWord {
+  key: string; // vocabularyKey(word, language)
+  word: string;
+  language: Language;
+  markedAt: number;
+}
+
+// Measured against the learner's vocabulary, as opposed to the level the prompt asked for
+export interface ArticleDifficulty {
+  tokens: number;
+  uniqueLemmas: number;
+  avgSentenceLength: number; // Tokens per sentence
+  knownRatio: number; // 0..1 share of tokens the learner already knows
+}
+
+// Pronunciation shown above part of an article: furigana for Japanese, Jyutping for Cantonese
+export interface ReadingAnnotation {
+  offset: number; // Character offset in the article content
+  length: number;
+  reading: string;
+}
+
+// 'unknown' shows readings only over words not marked as known
+export type ReadingMode = 'on' | 'unknown' | 'off';
+
+// When part of an article is spoken in its narration
+export interface AudioTiming {
+  offset: number; // Character offset in the article content
+  length: number;
+  start: number; // Seconds
+  end: number;
+}
+
+// Sentence and word timings measured on the narration audio
+export interface ArticleAlignment {
+  duration: number; // Of the audio it was measured on; a different length means different audio
+  sentences: AudioTiming[];
+  words: AudioTiming[];
+}
+
+export type VoiceGender = 'female' | 'male';
+
+// How a language is narrated. Providers that do not have the named voice use the gender.
+export interface VoicePreference {
+  gender: VoiceGender;
+  voice?: string; // A specific provider voice, e.g. "Kore" or "nova"
+  rate: number; // Speaking rate, 1 = normal
+}
+
+// The voice an article's narration was actually generated with
+export interface NarrationVoice {
+  provider: string; // Provider name
+  voice: string;
+  rate: number;
+}
+
+// How close a shadowing attempt came to the narration, each part 0..1
+export interface ShadowingScore {
+  overall: number;
+  duration: number; // Shorter over longer speaking time
+  energy: number; // Loudness contour (rhythm, stress)
+  pitch?: number; // Pitch contour (intonation); missing when too little voicing was found
+}
+
+// The learner repeating one sentence of an article after its narration
+export interface ShadowingRecording {
+  id: string;
+  articleId: string;
+  offset: number; // Character offset of the sentence in the article content
+  sentence: string;
+  audio: Blob; // As recorded by the browser
+  duration: number; // Seconds
+  score: ShadowingScore;
+  recordedAt: number;
+}
+
+// Translation language, matching the definitionEN / definitionCN pairing
+export type TranslationTarget = 'EN' | 'CN';
+
 export interface Article {
   id: string;
   date: string;
@@ -54,6 +205,12 @@ export interface Article {
   audioEncoding?: 'pcm' | 'mp3'; 
   audioUrl?: string; // Link to official source audio/video
   sourceUrl?: string; // Link to official source for news
+  level?: CefrLevel; // Target level it was written for
+  difficulty?: ArticleDifficulty;
+  readings?: ReadingAnnotation[]; // Generated on first read, for scripts that need them
+  translations?: Partial<Record<TranslationTarget, Record<number, string>>>; // By sentence start offset
+  alignment?: ArticleAlignment;
+  narrationVoice?: NarrationVoice;
 }
 
 export interface AppState {